@@ -0,0 +1,147 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as _ from "lodash";
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { l10n } from 'vscode';
+import * as jdk from './download/jdk';
+import * as jdkExplorer from './jdkExplorer';
+import * as projectVersion from './projectVersion';
+import * as redhat from './redhat';
+import * as settings from './settings';
+import * as system from './system';
+import { log } from './system';
+export const COMMAND_DOWNLOAD_JDK = 'javaAutoConfig.downloadJdk';
+export const COMMAND_REGISTER_JDK = 'javaAutoConfig.registerJdk';
+
+const DIAGNOSTIC_SOURCE = 'Auto Config Java';
+
+/**
+ * The detected JDK cache for the quick fixes (Key: Major version). Cleared when the runtimes are changed.
+ */
+const detectedJdkCache = new Map<number, ReturnType<typeof jdkExplorer.findLatest>>();
+
+/**
+ * Registers the diagnostics of the build files (pom.xml, build.gradle, build.gradle.kts) that flag
+ * the required Java version not configured in java.configuration.runtimes, and their quick fixes.
+ * @param context The extension context.
+ * @param javaConfig The Java configuration.
+ */
+export function register(context: vscode.ExtensionContext, javaConfig: redhat.IJavaConfig) {
+	const diagnostics = vscode.languages.createDiagnosticCollection('javaAutoConfig');
+	const _isBuildFile = (uri: vscode.Uri) =>
+		uri.scheme === 'file' && projectVersion.BUILD_FILE_NAMES.includes(path.basename(uri.fsPath));
+	const _updateDocument = (doc: vscode.TextDocument) => {
+		if (_isBuildFile(doc.uri)) {
+			update(diagnostics, javaConfig, doc.uri, doc.getText());
+		}
+	};
+	const _updateAll = () => {
+		diagnostics.clear();
+		detectedJdkCache.clear();
+		for (const folder of vscode.workspace.workspaceFolders ?? []) {
+			for (const fileName of projectVersion.BUILD_FILE_NAMES) {
+				const uri = vscode.Uri.joinPath(folder.uri, fileName);
+				const text = system.readString(uri.fsPath);
+				if (text !== undefined) {
+					update(diagnostics, javaConfig, uri, text);
+				}
+			}
+		}
+		vscode.workspace.textDocuments.forEach(_updateDocument);
+	};
+	context.subscriptions.push(
+		diagnostics,
+		vscode.workspace.onDidOpenTextDocument(_updateDocument),
+		vscode.workspace.onDidChangeTextDocument(event => _updateDocument(event.document)),
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration(redhat.JavaConfigRuntimes.CONFIG_NAME)) {
+				_updateAll();
+			}
+		}),
+		vscode.languages.registerCodeActionsProvider(
+			projectVersion.BUILD_FILE_NAMES.map(fileName => ({scheme: 'file', pattern: `**/${fileName}`})),
+			{provideCodeActions: (doc, range, context) => provideCodeActions(context)},
+			{providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]},
+		),
+		vscode.commands.registerCommand(COMMAND_DOWNLOAD_JDK, (majorVer: number) => downloadJdk(javaConfig, majorVer)),
+		vscode.commands.registerCommand(COMMAND_REGISTER_JDK, (majorVer: number, homeDir: string) =>
+			registerJdk(javaConfig, majorVer, homeDir)),
+	);
+	_updateAll();
+}
+
+function update(
+	diagnostics: vscode.DiagnosticCollection,
+	javaConfig: redhat.IJavaConfig,
+	uri: vscode.Uri,
+	text: string) {
+
+	const runtimes = settings.getJavaConfigRuntimes();
+	const lineStarts = [0, ...[...text.matchAll(/\n/g)].map(m => (m.index ?? 0) + 1)];
+	const _positionAt = (offset: number) => {
+		const line = _.sortedLastIndex(lineStarts, offset) - 1;
+		return new vscode.Position(line, offset - lineStarts[line]);
+	};
+	const declarations = projectVersion.findDeclarations(path.basename(uri.fsPath), text).filter(d =>
+		// Versions not supported by the Java extension cannot be configured
+		javaConfig.availableVers.includes(d.majorVersion) && !runtimes.findByVersion(d.majorVersion)
+	);
+	diagnostics.set(uri, declarations.map(d => {
+		const range = new vscode.Range(_positionAt(d.offset), _positionAt(d.offset + d.length));
+		const msg = `${l10n.t('This Java version is not configured in java.configuration.runtimes:')} ${d.majorVersion}`;
+		const diagnostic = new vscode.Diagnostic(range, msg, vscode.DiagnosticSeverity.Warning);
+		diagnostic.source = DIAGNOSTIC_SOURCE;
+		diagnostic.code = d.majorVersion;
+		return diagnostic;
+	}));
+}
+
+async function provideCodeActions(context: vscode.CodeActionContext): Promise<vscode.CodeAction[]> {
+	const actions: vscode.CodeAction[] = [];
+	for (const diagnostic of context.diagnostics.filter(d => d.source === DIAGNOSTIC_SOURCE)) {
+		const majorVer = Number(diagnostic.code);
+		const _addAction = (title: string, command: string, ...args: unknown[]) => {
+			const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+			action.diagnostics = [diagnostic];
+			action.command = {title, command, arguments: [majorVer, ...args]};
+			actions.push(action);
+		};
+		if (!detectedJdkCache.has(majorVer)) {
+			detectedJdkCache.set(majorVer, jdkExplorer.findLatest(majorVer)); // Avoid scan on each cursor move
+		}
+		const detectedJdk = await detectedJdkCache.get(majorVer);
+		if (detectedJdk) {
+			_addAction(`${l10n.t('Register')} Java ${detectedJdk.fullVersion} (${detectedJdk.source}): ${detectedJdk.homePath}`,
+				COMMAND_REGISTER_JDK, detectedJdk.homePath);
+		}
+		if (jdk.isTargetPlatform) {
+			_addAction(`${l10n.t('Download')} Java ${majorVer}`, COMMAND_DOWNLOAD_JDK);
+		}
+	}
+	return actions;
+}
+
+async function downloadJdk(javaConfig: redhat.IJavaConfig, majorVer: number) {
+	const runtimes = settings.getJavaConfigRuntimes();
+	const runtimesBefore = _.cloneDeep(runtimes);
+	await jdk.download(javaConfig, runtimes, majorVer, true);
+	if (!runtimes.findByVersion(majorVer)) {
+		vscode.window.showWarningMessage(`${l10n.t('Failed')}: ${l10n.t('Download')} Java ${majorVer}`);
+		return;
+	}
+	await settings.updateJavaRuntimes(javaConfig, runtimes, runtimesBefore);
+}
+
+async function registerJdk(javaConfig: redhat.IJavaConfig, majorVer: number, homeDir: string) {
+	const runtimes = settings.getJavaConfigRuntimes();
+	const runtimesBefore = _.cloneDeep(runtimes);
+	const runtimeName = redhat.nameOf(majorVer);
+	const matchedRuntime = runtimes.findByName(runtimeName);
+	if (matchedRuntime) {
+		matchedRuntime.path = homeDir;
+	} else {
+		runtimes.push({name: runtimeName, path: homeDir});
+	}
+	log.info(`Register JDK ${majorVer}`, homeDir);
+	await settings.updateJavaRuntimes(javaConfig, runtimes, runtimesBefore);
+}
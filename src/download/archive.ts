@@ -0,0 +1,145 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as fs from 'fs';
+import * as _ from "lodash";
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { l10n } from 'vscode';
+import * as downloader from '../downloader';
+import * as installLock from '../installLock';
+import * as jdkExplorer from '../jdkExplorer';
+import * as redhat from '../redhat';
+import * as settings from '../settings';
+import * as system from '../system';
+import { log } from '../system';
+import * as gradle from './gradle';
+import * as jdk from './jdk';
+import * as maven from './maven';
+export const COMMAND_INSTALL_ARCHIVE = 'javaAutoConfig.installFromArchive';
+
+/**
+ * An interface for the tool found in the extracted archive.
+ */
+interface IArchiveContent {
+	readonly kind: 'JDK' | 'Maven' | 'Gradle';
+	readonly homeDir: string;
+	readonly version: string;
+	readonly majorVersion?: number;
+}
+
+/**
+ * Installs a JDK, Maven or Gradle from the local archive file selected by the user.
+ * @param javaConfig The Java configuration.
+ * @returns A promise that resolves when the installation is completed.
+ */
+export async function installFromFile(javaConfig: redhat.IJavaConfig) {
+	const uris = await vscode.window.showOpenDialog({
+		canSelectMany: false,
+		openLabel: l10n.t('Install'),
+		title: l10n.t('Select a JDK, Maven or Gradle archive file'),
+		filters: {'Archive': ['zip', 'gz', 'tgz']},
+	});
+	const archiveFile = uris?.[0]?.fsPath;
+	if (!archiveFile) {
+		return;
+	}
+	log.info('Install from archive', archiveFile);
+	const tmpDir = system.getGlobalStoragePath('_install_tmp');
+	try {
+		system.rmSyncQuietly(tmpDir);
+		await downloader.extractLocal({
+			url: vscode.Uri.file(archiveFile).toString(),
+			localZipFile: archiveFile,
+			extractDestDir: tmpDir,
+			targetLabel: path.basename(archiveFile),
+			removeLeadingPath: 0, // Detect home dir later
+			keepLocalZipFile: true,
+		});
+		const content = await detect(tmpDir, path.basename(archiveFile));
+		if (!content) {
+			const msg = l10n.t('No JDK, Maven or Gradle was found in the archive file:');
+			vscode.window.showWarningMessage(`${msg} ${archiveFile}`);
+			return;
+		}
+		const label = await install(javaConfig, content);
+		if (label) {
+			vscode.window.showInformationMessage(`${l10n.t('Installed from archive file:')} ${label}`);
+		}
+	} catch (e: unknown) {
+		vscode.window.showErrorMessage(`Auto Config Java failed. ${e}`);
+		log.error('Failed install from archive', e);
+	} finally {
+		system.rmSyncQuietly(tmpDir);
+	}
+}
+
+async function detect(extractedDir: string, archiveName: string): Promise<IArchiveContent | undefined> {
+	const candidates = [
+		extractedDir,
+		...await system.globSearch(path.join(extractedDir, '*/'), {realpath: true}),
+		...await system.globSearch(path.join(extractedDir, '*', 'Contents', 'Home/'), {realpath: true}), // Mac
+	];
+	const _versionOf = (homeDir: string, prefix: string) => {
+		// e.g. apache-maven-3.9.6, gradle-8.7
+		const pattern = new RegExp(`${prefix}-(\\d+(?:\\.\\d+)*)`);
+		return (path.basename(homeDir).match(pattern) ?? archiveName.match(pattern))?.[1] ?? 'unknown';
+	};
+	for (const homeDir of candidates) {
+		const detectedJdk = await jdkExplorer.findByPath(homeDir);
+		if (detectedJdk) {
+			return {kind: 'JDK', homeDir, version: detectedJdk.fullVersion, majorVersion: detectedJdk.majorVersion};
+		}
+		if (maven.existsExe(homeDir)) {
+			return {kind: 'Maven', homeDir, version: _versionOf(homeDir, 'maven')};
+		}
+		if (gradle.existsExe(homeDir)) {
+			return {kind: 'Gradle', homeDir, version: _versionOf(homeDir, 'gradle')};
+		}
+	}
+	return undefined;
+}
+
+async function install(javaConfig: redhat.IJavaConfig, content: IArchiveContent): Promise<string | undefined> {
+	const label = `${content.kind} ${content.version}`;
+	if (content.kind === 'JDK') {
+		const majorVer = content.majorVersion ?? 0;
+		if (!javaConfig.availableVers.includes(majorVer)) {
+			const msg = l10n.t('This Java version is not supported by the Java extension:');
+			vscode.window.showWarningMessage(`${msg} ${label}`);
+			return undefined;
+		}
+		// Side by side with the pinned version dirs (e.g. java/21.0.4+7)
+		const installDir = system.getGlobalStoragePath('java', content.version);
+		await moveHome(content, installDir);
+
+		const runtimes = settings.getJavaConfigRuntimes();
+		const runtimesBefore = _.cloneDeep(runtimes);
+		const runtimeName = redhat.nameOf(majorVer);
+		const matchedRuntime = runtimes.findByName(runtimeName);
+		if (matchedRuntime) {
+			matchedRuntime.path = installDir;
+		} else {
+			runtimes.push({name: runtimeName, path: installDir});
+		}
+		await settings.updateJavaRuntimes(javaConfig, runtimes, runtimesBefore);
+
+	} else if (content.kind === 'Maven') {
+		const installDir = maven.getVersionDir(content.version);
+		await moveHome(content, installDir);
+		await settings.update(maven.CONFIG_NAME_MAVEN_EXE_PATH, maven.getExePath(installDir));
+
+	} else {
+		const installDir = gradle.getVersionDir(content.version);
+		await moveHome(content, installDir);
+		await settings.update(gradle.CONFIG_NAME_GRADLE_HOME, installDir);
+	}
+	return label;
+}
+
+async function moveHome(content: IArchiveContent, installDir: string) {
+	await installLock.withLock(installDir, async () => { // Wait for auto-download by other window
+		downloader.replaceDirectory(content.homeDir, installDir); // Keep previous version if failed
+		fs.writeFileSync(path.join(installDir, 'version.txt'), content.version);
+		fs.writeFileSync(path.join(installDir, 'distribution.txt'), system.LOCAL_DISTRIBUTION);
+	});
+	log.info(`Installed ${content.kind} ${content.version}`, installDir);
+}
@@ -0,0 +1,206 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as downloader from '../downloader';
+import * as httpClient from '../httpClient';
+import * as settings from '../settings';
+import { OS, log } from '../system';
+import * as mirror from './mirror';
+export const CONFIG_NAME_JDK_DISTRIBUTION = 'javaAutoConfig.jdk.distribution';
+export const DEFAULT_DISTRIBUTION = 'temurin';
+
+/**
+ * An interface for the platform parameters of the JDK metadata API.
+ */
+export interface IPlatform {
+	readonly os: 'windows' | 'mac' | 'linux';
+	readonly architecture: 'x64' | 'aarch64';
+	readonly archiveType: 'zip' | 'tar.gz';
+}
+
+/**
+ * An interface for the JDK release resolved by the distribution provider.
+ */
+export interface IJdkRelease {
+	readonly distribution: string;
+	readonly fullVersion: string;
+	readonly downloadUrl: string;
+	readonly fileName: string;
+	readonly removeLeadingPath: number;
+	readonly checksum: downloader.IChecksum;
+}
+
+/**
+ * An interface for the JDK distribution provider.
+ */
+interface IDistributionProvider {
+	find(majorVer: number, platform: IPlatform, version?: string): Promise<IJdkRelease>;
+}
+
+/**
+ * @param majorVer The major version of the JDK.
+ * @returns The platform parameters. undefined if unsupported platform.
+ */
+export function platformOf(majorVer: number): IPlatform | undefined {
+	const isX64 = process.arch === 'x64';
+	const isArm64 = process.arch === 'arm64';
+	if (OS.isWindows) {
+		if (isX64 || isArm64 /* mac Parallels Windows */) {
+			return {os: 'windows', architecture: 'x64', archiveType: 'zip'};
+		}
+	} else if (OS.isMac) {
+		// javaVersion < 11 is Rosetta
+		const architecture = isArm64 && majorVer >= 11 ? 'aarch64' : 'x64';
+		return {os: 'mac', architecture, archiveType: 'tar.gz'};
+	} else if (OS.isLinux) {
+		if (isX64) {
+			return {os: 'linux', architecture: 'x64', archiveType: 'tar.gz'};
+		} else if (isArm64) {
+			return {os: 'linux', architecture: 'aarch64', archiveType: 'tar.gz'};
+		}
+	}
+	return undefined;
+}
+
+/**
+ * @returns The distribution name configured by the user. Default is 'temurin'.
+ */
+export function getConfigDistribution(): string {
+	const name = settings.getWorkspace<string>(CONFIG_NAME_JDK_DISTRIBUTION) || DEFAULT_DISTRIBUTION;
+	if (!providers[name]) {
+		log.info('Invalid Settings', CONFIG_NAME_JDK_DISTRIBUTION, name);
+		return DEFAULT_DISTRIBUTION;
+	}
+	return name;
+}
+
+/**
+ * Finds the release of the JDK for the given distribution.
+ * @param distribution The distribution name. See getConfigDistribution().
+ * @param majorVer The major version of the JDK.
+ * @param platform The platform parameters.
+ * @param version The pinned full version (e.g. 21.0.4+7). undefined for the latest GA release.
+ * @returns A promise that resolves to the JDK release.
+ */
+export async function find(distribution: string, majorVer: number, platform: IPlatform, version?: string): Promise<IJdkRelease> {
+	return await (providers[distribution] ?? providers[DEFAULT_DISTRIBUTION]).find(majorVer, platform, version);
+}
+
+const ADOPTIUM_API_URL = 'https://api.adoptium.net';
+const FOOJAY_API_URL = 'https://api.foojay.io';
+
+/**
+ * Finds the Java major versions that are still maintained (not end of life) by OpenJDK updates.
+ * https://github.com/foojayio/discoapi (major_versions)
+ * @returns A promise that resolves to the maintained major versions.
+ */
+export async function findMaintainedVersions(): Promise<number[]> {
+	const apiRootUrl = mirror.baseUrlOf(mirror.CONFIG_NAME_FOOJAY_API_URL, FOOJAY_API_URL);
+	const params = 'ea=false&ga=true&maintained=true&include_build=false&include_versions=false';
+	const majorVers: any[] = (await httpClient.getCached(`${apiRootUrl}/disco/v3.0/major_versions?${params}`)).result ?? [];
+	return majorVers.filter(e => e.maintained).map(e => Number(e.major_version));
+}
+
+/**
+ * Adoptium API provider for Eclipse Temurin.
+ * https://api.adoptium.net/q/swagger-ui/#/Assets/searchReleases
+ * https://api.adoptium.net/q/swagger-ui/#/Assets/getReleaseInfo (Pinned version)
+ */
+const adoptiumProvider: IDistributionProvider = {
+	async find(majorVer, p, version) {
+		const apiRootUrl = mirror.baseUrlOf(mirror.CONFIG_NAME_ADOPTIUM_API_URL, ADOPTIUM_API_URL);
+		const params = `image_type=jdk&os=${p.os}&architecture=${p.architecture}`;
+		let json;
+		if (version) {
+			// e.g. jdk-21.0.4+7, jdk8u402-b06
+			const releaseName = majorVer <= 8 ? `jdk${version}` : `jdk-${version}`;
+			const apiBaseUrl = `${apiRootUrl}/v3/assets/release_name/eclipse/${encodeURIComponent(releaseName)}`;
+			json = await httpClient.getCached(`${apiBaseUrl}?${params}&project=jdk`);
+		} else {
+			const apiBaseUrl = `${apiRootUrl}/v3/assets/feature_releases/${majorVer}/ga`;
+			json = (await httpClient.getCached(`${apiBaseUrl}?${params}`))[0];
+		}
+		const pkg = json.binaries[0].package;
+		return {
+			distribution: DEFAULT_DISTRIBUTION,
+			fullVersion: json.release_name,
+			downloadUrl: pkg.link,
+			fileName: pkg.name,
+			removeLeadingPath: OS.isMac ? 3 : 1, // Remove leading 'jdk-xxx/Contents/Home/' for Mac
+			checksum: {algorithm: 'sha256', value: pkg.checksum},
+		};
+	},
+};
+
+/**
+ * foojay Disco API provider for other distributions.
+ * https://github.com/foojayio/discoapi
+ * @param distribution The distribution name for the user settings.
+ * @param discoName The distribution name for the Disco API.
+ * @param macLeadingPath The number of leading paths to remove for Mac.
+ * @returns The distribution provider.
+ */
+function discoProvider(distribution: string, discoName: string, macLeadingPath = 3): IDistributionProvider {
+	return {
+		async find(majorVer, p, version) {
+			const params = new URLSearchParams({
+				version: version ?? String(majorVer),
+				distribution: discoName,
+				operating_system: p.os === 'mac' ? 'macos' : p.os,
+				architecture: p.architecture,
+				archive_type: p.archiveType,
+				package_type: 'jdk',
+				release_status: 'ga',
+				javafx_bundled: 'false',
+				directly_downloadable: 'true',
+			});
+			if (!version) {
+				params.set('latest', 'available');
+			}
+			if (p.os === 'linux') {
+				params.set('lib_c_type', 'glibc');
+			}
+			const apiRootUrl = mirror.baseUrlOf(mirror.CONFIG_NAME_FOOJAY_API_URL, FOOJAY_API_URL);
+			const apiUrl = `${apiRootUrl}/disco/v3.0/packages?${params}`;
+			const _toMirror = (link: string) => link.replace(FOOJAY_API_URL, apiRootUrl);
+			const packages: any[] = (await httpClient.getCached(apiUrl)).result ?? [];
+			const json = packages.find(e => !/(lite|crac|musl)/i.test(e.filename)) ?? packages[0];
+			if (!json) {
+				throw new Error(`Not found ${distribution} ${version ?? majorVer} ${p.os}/${p.architecture}`);
+			}
+			return {
+				distribution,
+				fullVersion: json.java_version,
+				downloadUrl: _toMirror(json.links.pkg_download_redirect),
+				fileName: json.filename,
+				removeLeadingPath: OS.isMac ? macLeadingPath : 1,
+				checksum: await findDiscoChecksum(_toMirror(json.links.pkg_info_uri)),
+			};
+		},
+	};
+}
+
+async function findDiscoChecksum(pkgInfoUrl: string): Promise<downloader.IChecksum> {
+	const info = (await httpClient.get(pkgInfoUrl)).data.result?.[0] ?? {};
+	const algorithm = String(info.checksum_type).toLowerCase();
+	if (algorithm !== 'sha256' && algorithm !== 'sha512') {
+		throw new Error(`Unsupported checksum type [${info.checksum_type}] ${pkgInfoUrl}`);
+	}
+	if (info.checksum) {
+		return {algorithm, value: info.checksum};
+	}
+	if (info.checksum_uri) {
+		return await downloader.fetchChecksum(info.checksum_uri, algorithm);
+	}
+	throw new Error(`Checksum not published ${pkgInfoUrl}`); // Do not install unverified binaries
+}
+
+/**
+ * Key: Distribution name for user settings.
+ */
+const providers: Record<string, IDistributionProvider> = {
+	[DEFAULT_DISTRIBUTION]: adoptiumProvider,
+	corretto: discoProvider('corretto', 'corretto'),
+	zulu: discoProvider('zulu', 'zulu', 1), // Top level contains bin symlinks to 'zulu-xx.jdk/Contents/Home'
+	liberica: discoProvider('liberica', 'liberica'),
+	sapmachine: discoProvider('sapmachine', 'sap_machine'),
+	graalvm: discoProvider('graalvm', 'graalvm_community'),
+};
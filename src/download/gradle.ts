@@ -1,13 +1,28 @@
 /*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
-import axios from 'axios';
+import { compare } from 'compare-versions';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
+import * as _ from "lodash";
+import * as os from 'os';
 import * as path from 'path';
 import * as vscode from 'vscode';
+import { l10n } from 'vscode';
 import * as downloader from '../downloader';
+import * as httpClient from '../httpClient';
+import * as installLock from '../installLock';
+import * as jdkExplorer from '../jdkExplorer';
+import * as redhat from '../redhat';
 import * as settings from '../settings';
 import * as system from '../system';
 import { log } from '../system';
+import * as updateCheck from '../updateCheck';
+import * as jdk from './jdk';
+import * as mirror from './mirror';
 export const CONFIG_NAME_GRADLE_HOME = 'java.import.gradle.home';
+export const CONFIG_NAME_GRADLE_JAVA_HOME = 'java.import.gradle.java.home';
+export const CONFIG_NAME_GRADLE_PINNED_VERSION = 'javaAutoConfig.gradle.pinnedVersion';
+export const CONFIG_NAME_GRADLE_USER_HOME = 'java.import.gradle.user.home';
+const GRADLE_DISTRIBUTIONS_URL = 'https://services.gradle.org/distributions/';
 
 /**
  * @returns Whether the Gradle extension is installed.
@@ -39,9 +54,10 @@ export async function getWorkspaceBinDir(): Promise<string | undefined> {
 
 /**
  * Downloads and installs the Gradle if it is not already installed.
+ * @param isUpdateCheck false to skip the network access if already downloaded.
  * @returns A promise that resolves when the Gradle is installed.
  */
-export async function download() {
+export async function download(isUpdateCheck: boolean) {
 	if (!hasExtension()) {
 		return;
 	}
@@ -49,12 +65,18 @@ export async function download() {
 	let gradleHomeNew = await resolvePath(gradleHomeOld);
 	if (gradleHomeNew && system.isUserInstalled(gradleHomeNew)) {
 		log.info('Available Gradle (User installed)', CONFIG_NAME_GRADLE_HOME, gradleHomeNew);
+	} else if (gradleHomeNew && system.isArchiveInstalled(gradleHomeNew)) {
+		log.info('Available Gradle (Archive installed)', CONFIG_NAME_GRADLE_HOME, gradleHomeNew);
+	} else if (gradleHomeNew && !isUpdateCheck && system.equalsPath(gradleHomeNew, getDownloadDir())) {
+		log.info('Available Gradle (Update check skipped)', CONFIG_NAME_GRADLE_HOME, gradleHomeNew);
 	} else {
 		try {
 			gradleHomeNew = await httpget();
 		} catch (e: unknown) {
-			// Silent: offline, 404, 503 proxy auth error, or etc.
+			// Silent: offline, 404, or etc. (Show diagnostic if proxy error)
 			log.info('Updates Disabled Gradle:', e);
+			updateCheck.reportFailure();
+			httpClient.diagnose(e);
 		}
 	}
 	if (gradleHomeNew !== gradleHomeOld) {
@@ -64,8 +86,246 @@ export async function download() {
 	// Note: This setting is ignored if gradlew is exists
 }
 
-function getDownloadDir(): string {
-	return system.getGlobalStoragePath('gradle', 'latest');
+/**
+ * Pre-fetches the Gradle distributions declared by the Gradle Wrapper (gradle/wrapper/gradle-wrapper.properties)
+ * of each workspace folder into the wrapper dists directory, so the first gradlew build works offline.
+ * @returns A promise that resolves when the distributions are installed.
+ */
+export async function downloadWrapperDistributions() {
+	if (!hasExtension()) {
+		return;
+	}
+	for (const folder of vscode.workspace.workspaceFolders ?? []) {
+		try {
+			const wrapper = readWrapperProperties(folder);
+			if (wrapper) {
+				await installWrapperDistribution(wrapper);
+			}
+		} catch (e: unknown) {
+			// Silent: offline, 404, or etc. (Show diagnostic if proxy error)
+			log.info('Updates Disabled Gradle Wrapper:', folder.name, e);
+			httpClient.diagnose(e);
+		}
+	}
+}
+
+/**
+ * @returns The Gradle versions declared by the Gradle Wrapper of the workspace folders.
+ */
+export function getWrapperVersions(): string[] {
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	return _.uniq(folders.flatMap(folder => readWrapperProperties(folder)?.version ?? []));
+}
+
+/**
+ * The minimum Gradle version to run the daemon on each Java version (Key: Java major version).
+ * https://docs.gradle.org/current/userguide/compatibility.html#java_runtime
+ */
+const MIN_GRADLE_VERSIONS: Record<number, string> = {
+	8: '2.0', 9: '4.3', 10: '4.7', 11: '5.0', 12: '5.4', 13: '6.0', 14: '6.3', 15: '6.7', 16: '7.0',
+	17: '7.3', 18: '7.5', 19: '7.6', 20: '8.3', 21: '8.5', 22: '8.8', 23: '8.10', 24: '8.14', 25: '9.1.0',
+};
+
+/**
+ * @param gradleVer The Gradle version (e.g. 7.6.4).
+ * @param javaVer The Java major version of the daemon.
+ * @returns true if the Gradle daemon can run on the Java version.
+ */
+export function isCompatibleJava(gradleVer: string, javaVer: number): boolean {
+	try {
+		if (javaVer < 8 || (javaVer < 17 && compare(gradleVer, '9.0', '>='))) {
+			return false; // Gradle 9 requires Java 17+
+		}
+		const knownMaxJavaVer = _.max(Object.keys(MIN_GRADLE_VERSIONS).map(Number)) ?? 0;
+		if (javaVer > knownMaxJavaVer) { // Unknown: Newer Gradle than known may support it
+			return compare(gradleVer, MIN_GRADLE_VERSIONS[knownMaxJavaVer], '>');
+		}
+		return compare(gradleVer, MIN_GRADLE_VERSIONS[javaVer], '>=');
+	} catch (e: unknown) {
+		log.info(`Failed compare Gradle [${gradleVer}]`, e);
+		return true; // Unknown format (e.g. nightly): Keep current
+	}
+}
+
+/**
+ * @param wrapperVers The Gradle Wrapper versions.
+ * @param javaVer The Java major version of the daemon.
+ * @returns true if all Gradle Wrapper versions can run on the Java version.
+ */
+function isCompatibleWrappers(wrapperVers: string[], javaVer: number): boolean {
+	return wrapperVers.every(v => isCompatibleJava(v, javaVer));
+}
+
+/**
+ * Sets the workspace java.import.gradle.java.home to the newest runtime compatible with the Gradle Wrapper versions,
+ * if the current Gradle daemon JDK is not compatible. Always the workspace settings regardless of the
+ * configuration target, because the Gradle Wrapper versions differ by workspace.
+ * @param runtimes The Java runtimes.
+ * @returns true if the Gradle daemon JDK is constrained by the Gradle Wrapper and compatible (Kept or set).
+ */
+export async function updateWrapperJavaHome(runtimes: redhat.JavaConfigRuntimes): Promise<boolean> {
+	const wrapperVers = getWrapperVersions();
+	if (!hasExtension() || wrapperVers.length === 0) {
+		return false;
+	}
+	const javaHome = settings.getWorkspace<string>(CONFIG_NAME_GRADLE_JAVA_HOME);
+	if (javaHome) {
+		const javaVer = (await jdkExplorer.findByPath(javaHome))?.majorVersion;
+		if (javaVer && isCompatibleWrappers(wrapperVers, javaVer)) {
+			return true;
+		}
+		log.info(`Incompatible Gradle daemon Java ${javaVer} for Gradle Wrapper ${wrapperVers}`, javaHome);
+	}
+	const compatibleRuntime = _.findLast(
+		_.sortBy(runtimes, r => redhat.versionOf(r.name)),
+		r => isCompatibleWrappers(wrapperVers, redhat.versionOf(r.name)));
+	if (!compatibleRuntime) {
+		return false; // See offerWrapperJavaDownload
+	}
+	await settings.updateWorkspace(CONFIG_NAME_GRADLE_JAVA_HOME, compatibleRuntime.path);
+	return true;
+}
+
+/**
+ * Warns and offers a download if no JDK compatible with the Gradle Wrapper versions is installed.
+ * @param javaConfig The Java configuration.
+ * @param runtimes The Java runtimes.
+ * @returns A promise that resolves when the warning is closed.
+ */
+export async function offerWrapperJavaDownload(javaConfig: redhat.IJavaConfig, runtimes: redhat.JavaConfigRuntimes) {
+	const wrapperVers = getWrapperVersions();
+	const _isCompatible = (javaVer: number) => isCompatibleWrappers(wrapperVers, javaVer);
+	if (!hasExtension() || wrapperVers.length === 0 || runtimes.some(r => _isCompatible(redhat.versionOf(r.name)))) {
+		return;
+	}
+	const compatibleVers = javaConfig.availableVers.filter(_isCompatible);
+	const downloadVer = _.max(javaConfig.downloadLtsVers.filter(_isCompatible)) ?? _.max(compatibleVers);
+	const msg = `${l10n.t('No JDK compatible with the Gradle Wrapper is installed:')} Gradle ${wrapperVers.join(', ')}`;
+	if (!downloadVer || !jdk.isTargetPlatform) {
+		vscode.window.showWarningMessage(msg);
+		return;
+	}
+	const downloadLabel = `${l10n.t('Download')} Java ${downloadVer}`;
+	const selection = await vscode.window.showWarningMessage(msg, downloadLabel);
+	if (selection === downloadLabel) {
+		const runtimesBefore = _.cloneDeep(runtimes);
+		await jdk.download(javaConfig, runtimes, downloadVer, true);
+		await settings.updateJavaRuntimes(javaConfig, runtimes, runtimesBefore); // Sets the Gradle daemon JDK
+	}
+}
+
+/**
+ * An interface for the Gradle Wrapper distribution.
+ */
+interface IWrapperDistribution {
+	readonly version: string;
+	readonly distributionUrl: string;
+	readonly distributionSha256Sum?: string;
+	readonly distDir: string; // e.g. ~/.gradle/wrapper/dists/gradle-8.7-bin/<hash>
+	readonly zipDir: string; // The marker file dir by zipStoreBase/zipStorePath (Default GRADLE_USER_HOME/wrapper/dists)
+	readonly zipName: string; // e.g. gradle-8.7-bin.zip
+}
+
+function readWrapperProperties(folder: vscode.WorkspaceFolder): IWrapperDistribution | undefined {
+	const propsFile = path.join(folder.uri.fsPath, 'gradle', 'wrapper', 'gradle-wrapper.properties');
+	const props = system.readProperties(propsFile);
+	if (!props) {
+		return undefined;
+	}
+	// e.g. https://services.gradle.org/distributions/gradle-8.7-bin.zip
+	const url = props.distributionUrl;
+	const zipName = url?.split('/').at(-1);
+	const version = zipName?.match(/^gradle-(.+?)-(?:bin|all)\.zip$/)?.[1];
+	if (!url || !zipName || !version) {
+		log.info('Unsupported Gradle Wrapper distributionUrl', propsFile, url);
+		return undefined;
+	}
+	// Same as PathAssembler of the wrapper: <distName>/<base36 MD5 of URL>
+	const _baseDir = (base?: string) => base === 'PROJECT' ? folder.uri.fsPath : getUserHome();
+	const defaultPath = path.join('wrapper', 'dists');
+	const distPath = props.distributionPath || defaultPath;
+	const md5 = crypto.createHash('md5').update(url).digest('hex');
+	const hash = BigInt('0x' + md5).toString(36);
+	const distName = zipName.replace(/\.zip$/, '');
+	return {
+		version,
+		distributionUrl: url,
+		distributionSha256Sum: props.distributionSha256Sum || undefined,
+		distDir: path.join(_baseDir(props.distributionBase), distPath, distName, hash),
+		// zipStore defaults are independent of distributionBase/distributionPath
+		zipDir: path.join(_baseDir(props.zipStoreBase), props.zipStorePath || defaultPath, distName, hash),
+		zipName,
+	};
+}
+
+async function installWrapperDistribution(wrapper: IWrapperDistribution) {
+	// The wrapper skips download and extract if the marker file exists next to the zip file
+	const markerFile = path.join(wrapper.zipDir, wrapper.zipName + '.ok');
+	if (system.existsFile(markerFile)) {
+		log.info(`Available Gradle Wrapper ${wrapper.version}`, wrapper.distDir);
+		return;
+	}
+	await installLock.withLock(wrapper.distDir, async () => {
+		if (system.existsFile(markerFile)) {
+			return; // Installed by other window while waiting
+		}
+		let url = wrapper.distributionUrl;
+		if (url.startsWith(GRADLE_DISTRIBUTIONS_URL) && url.endsWith('-bin.zip')) {
+			url = mirror.downloadUrlOf(mirror.CONFIG_NAME_GRADLE_DOWNLOAD_URL, url, {version: wrapper.version});
+		}
+		const sha256 = wrapper.distributionSha256Sum;
+		await downloader.execute({
+			url,
+			localZipFile: wrapper.distDir + '_download_tmp.zip',
+			extractDestDir: wrapper.distDir,
+			targetLabel: `Gradle Wrapper ${wrapper.version}`,
+			progressLabel: 'Gradle',
+			removeLeadingPath: 0, // The wrapper expects a single root dir (e.g. gradle-8.7)
+			checksum: sha256
+				? {algorithm: 'sha256', value: sha256}
+				: await downloader.fetchChecksum(url + '.sha256', 'sha256'),
+			validate: dir => fs.readdirSync(dir).some(name => existsExe(path.join(dir, name))),
+		});
+		fs.mkdirSync(wrapper.zipDir, {recursive: true});
+		fs.writeFileSync(markerFile, '');
+		log.info(`Installed Gradle Wrapper ${wrapper.version}`, wrapper.distDir);
+	});
+}
+
+/**
+ * @returns The Gradle user home directory (e.g. ~/.gradle).
+ */
+export function getUserHome(): string {
+	return settings.getWorkspace<string>(CONFIG_NAME_GRADLE_USER_HOME)
+		|| process.env.GRADLE_USER_HOME
+		|| path.join(os.homedir(), '.gradle');
+}
+
+/**
+ * @returns The path of the Gradle download directory. The pinned version is side by side (e.g. gradle/8.7).
+ */
+export function getDownloadDir(): string {
+	return getVersionDir(getPinnedVersion() ?? 'latest');
+}
+
+/**
+ * @param version The Gradle version (e.g. 8.7).
+ * @returns The path of the version directory side by side with the download directory.
+ */
+export function getVersionDir(version: string): string {
+	return system.getGlobalStoragePath('gradle', version);
+}
+
+/**
+ * @returns The pinned Gradle version (e.g. 8.7). undefined if not pinned.
+ */
+export function getPinnedVersion(): string | undefined {
+	const pinnedVer = settings.getWorkspace<string>(CONFIG_NAME_GRADLE_PINNED_VERSION)?.trim();
+	if (pinnedVer && !/^\d+\.\d+[\w.-]*$/.test(pinnedVer)) {
+		log.info('Invalid Settings', CONFIG_NAME_GRADLE_PINNED_VERSION, pinnedVer);
+		return undefined;
+	}
+	return pinnedVer || undefined;
 }
 
 async function resolvePath(configGradleHome?: string): Promise<string | undefined> {
@@ -100,38 +360,53 @@ async function resolvePath(configGradleHome?: string): Promise<string | undefine
 
 async function httpget(): Promise<string | undefined> {
 
-	// Get Latest Version
-	const json = (await axios.get('https://services.gradle.org/versions/current')).data;
-	const version = json.version;
+	// Get Latest Version (Skip if pinned)
+	const pinnedVer = getPinnedVersion();
+	const versionsUrl = mirror.baseUrlOf(mirror.CONFIG_NAME_GRADLE_VERSIONS_URL, 'https://services.gradle.org/versions/current');
+	const json = pinnedVer ? undefined : await httpClient.getCached(versionsUrl);
+	const version: string = pinnedVer ?? json.version;
 
-	// Check Version File
+	// Lock for other windows (Reuse the Gradle if installed by other window while waiting)
 	const downloadDir = getDownloadDir();
-	const versionFile = path.join(downloadDir, 'version.txt');
-	const versionOld = system.readString(versionFile);
-	if (version === versionOld && existsExe(downloadDir)) {
-		const mdate = system.getLastModified(versionFile);
-		log.info(`Available Gradle ${version} (Updated ${mdate})`);
-		return downloadDir;
-	}
+	return await installLock.withLock(downloadDir, async () => {
+		// Check Version File
+		const versionFile = path.join(downloadDir, 'version.txt');
+		const versionOld = system.readString(versionFile);
+		if (version === versionOld && existsExe(downloadDir)) {
+			const mdate = system.getLastModified(versionFile);
+			log.info(`Available Gradle ${version} (Updated ${mdate})`);
+			return downloadDir;
+		}
+
+		// Download
+		const officialUrl = json?.downloadUrl ?? `${GRADLE_DISTRIBUTIONS_URL}gradle-${version}-bin.zip`;
+		const url = mirror.downloadUrlOf(mirror.CONFIG_NAME_GRADLE_DOWNLOAD_URL, officialUrl, {version});
+		const checksumUrl = url === json?.downloadUrl && json.checksumUrl ? json.checksumUrl : url + '.sha256';
+		await downloader.execute({
+			url,
+			localZipFile: downloadDir + '_download_tmp.zip',
+			extractDestDir: downloadDir,
+			targetLabel: `Gradle ${version}`,
+			progressLabel: 'Gradle',
+			checksum: await downloader.fetchChecksum(checksumUrl, 'sha256'),
+			validate: existsExe,
+		});
 
-    // Download
-	await downloader.execute({
-		url: json.downloadUrl,
-		localZipFile: downloadDir + '_download_tmp.zip',
-		extractDestDir: downloadDir,
-		targetLabel: `Gradle ${version}`,
+		// Validate
+		if (!existsExe(downloadDir)) {
+			log.info('Failed download Gradle:', downloadDir);
+			return undefined; // Silent: Remove config entry
+		}
+		fs.writeFileSync(versionFile, version); // Sync for catch
+		return downloadDir;
 	});
-	
-	// Validate
-	if (!existsExe(downloadDir)) {
-		log.info('Failed download Gradle:', downloadDir);
-		return undefined; // Silent: Remove config entry
-	}
-	fs.writeFileSync(versionFile, version); // Sync for catch
-	return downloadDir;
 }
 
-function existsExe(homeDir: string) {
+/**
+ * @param homeDir The home dir of the Gradle.
+ * @returns true if the executable exists in the bin dir.
+ */
+export function existsExe(homeDir: string) {
     return system.existsFile(getExePath(homeDir));
 }
 
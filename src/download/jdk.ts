@@ -1,73 +1,72 @@
 /*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
-import axios from 'axios';
 import * as fs from 'fs';
 import * as _ from "lodash";
 import * as path from 'path';
+import * as vscode from 'vscode';
+import { l10n } from 'vscode';
 import * as downloader from '../downloader';
+import * as httpClient from '../httpClient';
+import * as installLock from '../installLock';
 import * as jdkExplorer from '../jdkExplorer';
 import * as redhat from '../redhat';
+import * as settings from '../settings';
 import * as system from '../system';
 import { OS, log } from '../system';
+import * as updateCheck from '../updateCheck';
+import * as distribution from './distribution';
+import * as mirror from './mirror';
+export const CONFIG_NAME_JDK_PINNED_VERSIONS = 'javaAutoConfig.jdk.pinnedVersions';
 
 /**
  * true if the current platform is JDK downloadable.
  */
-export const isTargetPlatform = apiParamsOf(0) !== undefined;
+export const isTargetPlatform = distribution.platformOf(0) !== undefined;
 
 /**
- * Adoptium API parameters.
+ * @param javaConfig The Java configuration.
+ * @param majorVer The major version of the JDK.
+ * @returns The path of the JDK download directory. The pinned version is side by side (e.g. java/21.0.4+7).
  */
-interface ApiParams {
-	os: string;
-	architecture: string;
+export function getDownloadDir(javaConfig: redhat.IJavaConfig, majorVer: number): string {
+	const pinnedVer = getPinnedVersion(majorVer);
+	if (pinnedVer) {
+		return system.getGlobalStoragePath('java', pinnedVer);
+	}
+	return majorVer === javaConfig.latestAvailableVer
+		? getDownloadLatestDir()
+		: system.getGlobalStoragePath('java', String(majorVer));
 }
 
 /**
- * @param javaVersion The major version of the JDK.
- * @returns Adoptium API parameters.
+ * @param majorVer The major version of the JDK.
+ * @returns The pinned full version (e.g. 21.0.4+7, 8u402-b06). undefined if not pinned.
  */
-function apiParamsOf(javaVersion: number): ApiParams | undefined {
-	const isX64 = process.arch === 'x64';
-	const isArm64 = process.arch === 'arm64';
-	const params = {
-		os: '',
-		architecture: '',
-	};
-	if (OS.isWindows) {
-		if (isX64 || isArm64 /* mac Parallels Windows */) {
-			params.os = 'windows';
-			params.architecture = 'x64';
-			return params;
-		}
-	} else if (OS.isMac) {
-		params.os = 'mac';
-		if (isArm64 && javaVersion >= 11) {
-			params.architecture = 'aarch64';
-		} else { // javaVersion < 11 is Rosetta
-			params.architecture = 'x64';
-		}
-		return params;
-	} else if (OS.isLinux) {
-		params.os = 'linux';
-		if (isX64) {
-			params.architecture = 'x64';
-		} else if (isArm64) {
-			params.architecture = 'aarch64';
-		}
-		return params;
-	}
-	return undefined;
+export function getPinnedVersion(majorVer: number): string | undefined {
+	return findPinnedVersions(majorVer)[0];
 }
 
 /**
- * @param javaConfig The Java configuration.
  * @param majorVer The major version of the JDK.
- * @returns The path of the JDK download directory.
+ * @returns The pinned full versions of the major version in settings order. Only the first is used.
  */
-export function getDownloadDir(javaConfig: redhat.IJavaConfig, majorVer: number): string {
-	return majorVer === javaConfig.latestAvailableVer
-		? getDownloadLatestDir()
-		: system.getGlobalStoragePath('java', String(majorVer));
+function findPinnedVersions(majorVer: number): string[] {
+	const pinnedVers = settings.getWorkspace<string[]>(CONFIG_NAME_JDK_PINNED_VERSIONS) ?? [];
+	return pinnedVers.map(toVersion).filter(pinnedVer => {
+		// Major version only (e.g. 21) is not a pin, and it conflicts with the unpinned dir
+		const matched = pinnedVer.match(/^(?:1\.)?(\d+)[.u+][\w.+-]+$/);
+		if (!matched) {
+			log.info('Invalid Settings', CONFIG_NAME_JDK_PINNED_VERSIONS, pinnedVer);
+		}
+		return Number(matched?.[1]) === majorVer;
+	});
+}
+
+/**
+ * @param fullVer The full version or the release name (e.g. jdk-21.0.4+7).
+ * @returns The version without the 'jdk-' prefix.
+ */
+function toVersion(fullVer: string): string {
+	return fullVer.trim().replace(/^jdk-?/, '');
 }
 
 /**
@@ -82,83 +81,243 @@ export function getDownloadLatestDir(): string {
  * @param javaConfig The Java configuration.
  * @param runtimes An array of installed Java runtimes.
  * @param majorVer The major version of the JDK to download.
+ * @param isUpdateCheck false to skip the network access if already downloaded.
  * @returns A promise that resolves when the JDK is installed.
  */
 export async function download(
 	javaConfig: redhat.IJavaConfig,
 	runtimes: redhat.JavaConfigRuntimes,
-	majorVer: number) {
+	majorVer: number,
+	isUpdateCheck: boolean) {
 
-	// Skip if installed by user
+	// Skip if installed by user (Pinned version is preferred)
 	const runtimeName = redhat.nameOf(majorVer);
 	const matchedRuntime = runtimes.findByName(runtimeName);
-	if (matchedRuntime && system.isUserInstalled(matchedRuntime.path)) {
-		jdkExplorer.findByPath(matchedRuntime.path).then(detectedJdk => {
-			const ver = detectedJdk?.fullVersion || majorVer;
-			log.info(`Available JDK ${ver} (User installed)`);
-		});
+	const [pinnedVer, ...ignoredPinnedVers] = findPinnedVersions(majorVer);
+	if (ignoredPinnedVers.length > 0) {
+		log.warn(`Ignored duplicate ${CONFIG_NAME_JDK_PINNED_VERSIONS} of Java ${majorVer}:`, ignoredPinnedVers);
+	}
+	if (!pinnedVer && matchedRuntime && system.isUserInstalled(matchedRuntime.path)) {
+		const detectedJdk = await jdkExplorer.findByPath(matchedRuntime.path);
+		log.info(`Available JDK ${detectedJdk?.fullVersion || majorVer} (User installed)`);
+		if (detectedJdk && isUpdateCheck) {
+			checkUserInstalled(javaConfig, detectedJdk) // Without await for message
+				.catch(e => log.warn('Failed check user installed JDK', e));
+		}
+		return;
+	}
+	if (!pinnedVer && matchedRuntime && system.isArchiveInstalled(matchedRuntime.path)) {
+		log.info(`Available JDK ${system.readString(path.join(matchedRuntime.path, 'version.txt'))} (Archive installed)`);
 		return;
 	}
 
-	// Adoptium API
-	// https://api.adoptium.net/q/swagger-ui/#/Assets/searchReleases
-	const apiRes = {
-		downloadUrl: '',
-		fullVer: '',
-	};
+	// Skip if pinned version is installed or update checked recently
+	const distName = distribution.getConfigDistribution();
+	const downloadVerDir = getDownloadDir(javaConfig, majorVer);
+	const versionFile = path.join(downloadVerDir, 'version.txt');
+	const distributionFile = path.join(downloadVerDir, 'distribution.txt');
+	if (pinnedVer || !isUpdateCheck) {
+		const fullVerOld = toVersion(system.readString(versionFile) || '');
+		const distNameOld = system.readString(distributionFile) || distribution.DEFAULT_DISTRIBUTION;
+		const isInstalled = pinnedVer
+			? fullVerOld === pinnedVer || fullVerOld.startsWith(pinnedVer + '+') // e.g. Pinned 21.0.4 -> 21.0.4+7
+			: true;
+		if (isInstalled && distNameOld === distName && await jdkExplorer.isValidHome(downloadVerDir)) {
+			log.info(`Available JDK ${fullVerOld} ${distName} (${pinnedVer ? 'Pinned' : 'Update check skipped'})`);
+			setRuntime(runtimes, runtimeName, downloadVerDir);
+			return;
+		}
+	}
+
+	// Adoptium API finds the pinned release by the exact release name
+	if (pinnedVer && distName === distribution.DEFAULT_DISTRIBUTION && !pinnedVer.match(/\+|-b\d/)) {
+		const msg = l10n.t('The pinned Temurin version requires the build number (e.g. 21.0.4+7, 8u402-b06):');
+		vscode.window.showWarningMessage(`${msg} ${pinnedVer}`);
+		return;
+	}
+
+	// Distribution Provider API
+	let release: distribution.IJdkRelease;
+	let downloadUrl: string;
 	try {
-		const p = apiParamsOf(majorVer);
+		const p = distribution.platformOf(majorVer);
 		if (!p) {
 			log.info(`Unsupported platform: ${process.platform}/${process.arch}`);
 			return;
 		}
-		const apiBaseUrl = `https://api.adoptium.net/v3/assets/feature_releases/${majorVer}/ga`;
-		const apiUrl = `${apiBaseUrl}?image_type=jdk&os=${p.os}&architecture=${p.architecture}`;
-		const json = (await axios.get(apiUrl)).data[0];
-		apiRes.downloadUrl = json.binaries[0].package.link;
-		apiRes.fullVer = json.release_name;
+		release = await distribution.find(distName, majorVer, p, pinnedVer);
+		downloadUrl = mirror.downloadUrlOf(mirror.CONFIG_NAME_JDK_DOWNLOAD_URL, release.downloadUrl, {
+			distribution: release.distribution,
+			majorVersion: majorVer,
+			fullVersion: release.fullVersion,
+			os: p.os,
+			architecture: p.architecture,
+			archiveType: p.archiveType,
+			fileName: release.fileName,
+		});
 	} catch (e: unknown) {
-		// Silent: offline, 404, 503 proxy auth error, or etc.
-		log.info('Updates Disabled JDK:', e);
+		// Silent: offline, 404, or etc. (Show diagnostic if proxy error)
+		log.info(`Updates Disabled JDK (${distName}):`, e);
+		updateCheck.reportFailure();
+		httpClient.diagnose(e);
 		return;
 	}
 
-	// Check Version File
-	const downloadVerDir = getDownloadDir(javaConfig, majorVer);
-	const versionFile = path.join(downloadVerDir, 'version.txt');
-	if (await jdkExplorer.isValidHome(downloadVerDir)) {
-		const mdate = system.getLastModified(versionFile);
-		const fullVerOld = system.readString(versionFile) || '';
-		log.info(`Available JDK ${fullVerOld.replace(/jdk-?/, '')} (Updated ${mdate})`);
-		if (apiRes.fullVer === fullVerOld) {
+	// Lock for other windows (Reuse the JDK if installed by other window while waiting)
+	const isAvailable = await installLock.withLock(downloadVerDir, async () => {
+		// Check Version File
+		if (await jdkExplorer.isValidHome(downloadVerDir)) {
+			const mdate = system.getLastModified(versionFile);
+			const fullVerOld = system.readString(versionFile) || '';
+			const distNameOld = system.readString(distributionFile) || distribution.DEFAULT_DISTRIBUTION;
+			log.info(`Available JDK ${toVersion(fullVerOld)} ${distNameOld} (Updated ${mdate})`);
+			if (release.fullVersion === fullVerOld && release.distribution === distNameOld) {
+				return true;
+			}
+		}
+
+		// Download
+		const req: downloader.IDownloaderRequest = {
+			url: downloadUrl,
+			localZipFile: downloadVerDir + '_download_tmp.' + (OS.isWindows ? 'zip' : 'tar.gz'),
+			extractDestDir: downloadVerDir,
+			targetLabel: `${release.fullVersion} (${release.distribution})`,
+			progressLabel: 'JDK',
+			removeLeadingPath: release.removeLeadingPath,
+			checksum: release.checksum,
+			validate: jdkExplorer.isValidHome,
+		};
+		try {
+			await downloader.execute(req);
+		} catch (e: unknown) {
+			if (!(e instanceof vscode.CancellationError)) {
+				updateCheck.reportFailure(); // Download, checksum or extract failure
+			}
+			if (await jdkExplorer.isValidHome(downloadVerDir)) {
+				log.info(`Keep previous JDK ${majorVer}:`, downloadVerDir);
+				return false; // Silent: Previous version is kept (Retry next time)
+			}
+			if (e instanceof vscode.CancellationError) {
+				return false; // Cancelled by user
+			}
+		}
+
+		// Validate
+		if (!await jdkExplorer.isValidHome(downloadVerDir)) {
+			log.info('Failed download JDK:', downloadVerDir);
+			updateCheck.reportFailure();
+			_.remove(runtimes, {name: runtimeName});
+			return false; // Silent
+		}
+		fs.writeFileSync(versionFile, release.fullVersion); // Sync for throw
+		fs.writeFileSync(distributionFile, release.distribution);
+		return true;
+	});
+	if (isAvailable) {
+		setRuntime(runtimes, runtimeName, downloadVerDir);
+	}
+}
+
+/**
+ * Warns if the user installed JDK is older than the latest patch release or the major version is end of life.
+ * The warning offers to download the latest patch release or to switch to the auto-downloaded JDK.
+ * @param javaConfig The Java configuration.
+ * @param detectedJdk The user installed JDK.
+ * @returns A promise that resolves when the warning is closed.
+ */
+async function checkUserInstalled(javaConfig: redhat.IJavaConfig, detectedJdk: jdkExplorer.IDetectedJdk) {
+	const majorVer = detectedJdk.majorVersion;
+	let latestVer: string;
+	let isMaintained: boolean;
+	try {
+		const p = distribution.platformOf(majorVer);
+		if (!p) {
+			return;
+		}
+		const release = await distribution.find(distribution.getConfigDistribution(), majorVer, p);
+		latestVer = toVersion(release.fullVersion);
+		isMaintained = (await distribution.findMaintainedVersions()).includes(majorVer);
+	} catch (e: unknown) {
+		log.info(`Failed check user installed JDK ${majorVer}:`, e); // Silent
+		return;
+	}
+	const isOutdated = isOlder(detectedJdk.fullVersion, latestVer);
+	if (!isOutdated && isMaintained) {
+		return;
+	}
+	log.info(`User installed JDK ${detectedJdk.fullVersion} outdated: ${isOutdated}, maintained: ${isMaintained}`);
+	const msg = isMaintained
+		? `${l10n.t('The installed JDK is outdated:')} ${detectedJdk.fullVersion} -> ${latestVer}`
+		: `${l10n.t('The installed Java version has reached end of life:')} ${detectedJdk.fullVersion}`;
+	const downloadDir = getDownloadDir(javaConfig, majorVer);
+	const isDownloaded = await jdkExplorer.isValidHome(downloadDir);
+	const actionLabel = isDownloaded
+		? l10n.t('Use auto-downloaded JDK')
+		: `${l10n.t('Download')} ${latestVer}`;
+	const selection = await vscode.window.showWarningMessage(`${msg} (${detectedJdk.homePath})`, actionLabel);
+	if (selection !== actionLabel) {
+		return;
+	}
+	const runtimes = settings.getJavaConfigRuntimes();
+	const runtimesBefore = _.cloneDeep(runtimes);
+	const runtimeName = redhat.nameOf(majorVer);
+	setRuntime(runtimes, runtimeName, downloadDir); // Not user installed: Download if not yet
+	if (!isDownloaded) {
+		await download(javaConfig, runtimes, majorVer, true);
+		if (!system.equalsPath(downloadDir, runtimes.findByName(runtimeName)?.path)) {
+			vscode.window.showWarningMessage(`${l10n.t('Failed')}: ${l10n.t('Download')} ${latestVer}`);
 			return;
 		}
 	}
+	await settings.updateJavaRuntimes(javaConfig, runtimes, runtimesBefore);
+}
 
-	// Download
-	const req: downloader.IDownloaderRequest = {
-		url: apiRes.downloadUrl,
-		localZipFile: downloadVerDir + '_download_tmp.' + (OS.isWindows ? 'zip' : 'tar.gz'),
-		extractDestDir: downloadVerDir,
-		targetLabel: apiRes.fullVer,
-		removeLeadingPath: OS.isMac ? 3 : 1, // Remove leading 'jdk-xxx/Contents/Home/' for Mac
+/**
+ * @param fullVer The full version of the JDK (e.g. 17.0.2, 1.8.0_392, 17.0.12.7.1).
+ * @param latestVer The latest version from the distribution provider (e.g. 17.0.12+7, 8u422-b05).
+ * @returns true if fullVer is older than latestVer. false if unknown format.
+ */
+function isOlder(fullVer: string, latestVer: string): boolean {
+	// Only the first three numeric segments and the build number (Vendor specific segments are ignored)
+	// e.g. 1.8.0_392 -> 8.0.392, 8u422-b05 -> 8.0.422 b5, 17.0.12+7 -> 17.0.12 b7, 17.0.12.7.1 -> 17.0.12
+	const _parse = (ver: string) => {
+		const java8 = ver.match(/^(?:1\.)?8(?:\.0)?[u_](\d+)(?:-b(\d+))?/);
+		const parts = java8
+			? ['8', '0', java8[1], java8[2]]
+			: ver.match(/^(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.\d+)*(?:\+(\d+))?/)?.slice(1, 5);
+		if (!parts) {
+			return undefined;
+		}
+		return {segments: parts.slice(0, 3).map(p => Number(p ?? 0)), build: parts[3] ? Number(parts[3]) : undefined};
 	};
-	await downloader.execute(req);
-
-	// Validate
-	if (!await jdkExplorer.isValidHome(downloadVerDir)) {
-		log.info('Failed download JDK:', downloadVerDir);
-		_.remove(runtimes, {name: runtimeName});
-		return; // Silent
+	const current = _parse(fullVer);
+	const latest = _parse(latestVer);
+	if (!current || !latest) {
+		log.info(`Failed compare JDK version [${fullVer}] [${latestVer}]`);
+		return false;
 	}
-	fs.writeFileSync(versionFile, apiRes.fullVer); // Sync for throw
+	for (let i = 0; i < current.segments.length; i++) {
+		if (current.segments[i] !== latest.segments[i]) {
+			return current.segments[i] < latest.segments[i];
+		}
+	}
+	// Compare the build number only if both have it
+	return current.build !== undefined && latest.build !== undefined && current.build < latest.build;
+}
 
-	// Set Runtimes Configuration
+/**
+ * Sets the runtimes configuration.
+ * @param runtimes An array of installed Java runtimes.
+ * @param runtimeName The runtime name (e.g. JavaSE-21).
+ * @param homeDir The JDK home directory.
+ */
+function setRuntime(runtimes: redhat.JavaConfigRuntimes, runtimeName: string, homeDir: string) {
+	const matchedRuntime = runtimes.findByName(runtimeName);
 	if (matchedRuntime) {
 		// Update
-		matchedRuntime.path = downloadVerDir;
+		matchedRuntime.path = homeDir;
 	} else {
 		// Add New
-		runtimes.push({name: runtimeName, path: downloadVerDir});
+		runtimes.push({name: runtimeName, path: homeDir});
 	}
 }
@@ -1,13 +1,18 @@
 /*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
-import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import * as downloader from '../downloader';
+import * as httpClient from '../httpClient';
+import * as installLock from '../installLock';
 import * as settings from '../settings';
 import * as system from '../system';
 import { log } from '../system';
+import * as updateCheck from '../updateCheck';
+import * as mirror from './mirror';
 export const CONFIG_NAME_MAVEN_EXE_PATH = 'maven.executable.path';
+export const CONFIG_NAME_MAVEN_PINNED_VERSION = 'javaAutoConfig.maven.pinnedVersion';
+const MAVEN_CENTRAL_URL = 'https://repo.maven.apache.org/maven2';
 
 /**
  * @returns Whether the Maven extension is installed.
@@ -35,9 +40,10 @@ export async function getWorkspaceBinDir(): Promise<string | undefined> {
 
 /**
  * Downloads and installs the Maven if it is not already installed.
+ * @param isUpdateCheck false to skip the network access if already downloaded.
  * @returns A promise that resolves when the Maven is installed.
  */
-export async function download() {
+export async function download(isUpdateCheck: boolean) {
 	if (!hasExtension()) {
 		return;
 	}
@@ -50,12 +56,18 @@ export async function download() {
 	let mavenExeNew = await resolvePath(mavenExeOld);
 	if (mavenExeNew && system.isUserInstalled(mavenExeNew)) {
 		log.info('Available Maven (User installed)', CONFIG_NAME_MAVEN_EXE_PATH, mavenExeNew);
+	} else if (mavenExeNew && system.isArchiveInstalled(path.join(mavenExeNew, '..', '..'))) {
+		log.info('Available Maven (Archive installed)', CONFIG_NAME_MAVEN_EXE_PATH, mavenExeNew);
+	} else if (mavenExeNew && !isUpdateCheck && system.equalsPath(mavenExeNew, getExePath(getDownloadDir()))) {
+		log.info('Available Maven (Update check skipped)', CONFIG_NAME_MAVEN_EXE_PATH, mavenExeNew);
 	} else {
 		try {
 			mavenExeNew = await httpget();
 		} catch (e: unknown) {
-			// Silent: offline, 404, 503 proxy auth error, or etc.
+			// Silent: offline, 404, or etc. (Show diagnostic if proxy error)
 			log.info('Updates Disabled Maven:', e);
+			updateCheck.reportFailure();
+			httpClient.diagnose(e);
 		}
 	}
 	if (mavenExeNew !== mavenExeOld) {
@@ -63,8 +75,108 @@ export async function download() {
 	}
 }
 
-function getDownloadDir(): string {
-	return system.getGlobalStoragePath('maven', 'latest');
+/**
+ * Downloads the Maven versions declared by the Maven Wrapper (.mvn/wrapper/maven-wrapper.properties)
+ * of each workspace folder, and sets the workspace folder scoped maven.executable.path.
+ * The Maven is shared with the same pinned version (e.g. maven/3.6.3), so offline use does not need the wrapper download.
+ * @returns A promise that resolves when the Maven versions are installed.
+ */
+export async function downloadWrapperVersions() {
+	if (!hasExtension() || settings.getUserDefine<string>(CONFIG_NAME_MAVEN_EXE_PATH) === '') {
+		return; // Use mvnw if user settings is empty
+	}
+	for (const folder of vscode.workspace.workspaceFolders ?? []) {
+		const folderExeOld = settings.getWorkspaceFolderDefine<string>(CONFIG_NAME_MAVEN_EXE_PATH, folder);
+		if (folderExeOld && system.isUserInstalled(folderExeOld)) {
+			log.info('Available Maven (User installed)', folder.name, CONFIG_NAME_MAVEN_EXE_PATH, folderExeOld);
+			continue;
+		}
+		try {
+			const wrapper = readWrapperProperties(folder);
+			let folderExeNew: string | undefined;
+			if (wrapper) {
+				const checksum = wrapper.distributionSha256Sum;
+				folderExeNew = await install(getVersionDir(wrapper.version), wrapper.version, wrapper.distributionUrl, async () =>
+					checksum
+						? {algorithm: 'sha256', value: checksum}
+						: await downloader.fetchChecksum(wrapper.distributionUrl + '.sha512', 'sha512')
+				);
+			}
+			if (folderExeNew !== folderExeOld) {
+				await settings.updateWorkspaceFolder(CONFIG_NAME_MAVEN_EXE_PATH, folderExeNew, folder); // Remove if undefined
+			}
+		} catch (e: unknown) {
+			// Silent: offline, 404, or etc. (Show diagnostic if proxy error)
+			log.info('Updates Disabled Maven Wrapper:', folder.name, e);
+			httpClient.diagnose(e);
+		}
+	}
+}
+
+/**
+ * An interface for the Maven Wrapper properties.
+ */
+interface IWrapperProperties {
+	readonly version: string;
+	readonly distributionUrl: string;
+	readonly distributionSha256Sum?: string;
+}
+
+function readWrapperProperties(folder: vscode.WorkspaceFolder): IWrapperProperties | undefined {
+	const propsFile = path.join(folder.uri.fsPath, '.mvn', 'wrapper', 'maven-wrapper.properties');
+	const props = system.readProperties(propsFile);
+	if (!props) {
+		return undefined;
+	}
+	const url = props.distributionUrl;
+	// e.g. https://repo.maven.apache.org/maven2/org/apache/maven/apache-maven/3.6.3/apache-maven-3.6.3-bin.zip
+	const version = url?.match(/apache-maven-(\d+\.\d+\.\d+[\w.-]*?)-bin\.(?:zip|tar\.gz)$/)?.[1];
+	if (!url || !version) {
+		log.info('Unsupported Maven Wrapper distributionUrl', propsFile, url);
+		return undefined;
+	}
+	log.info(`Maven Wrapper ${version}`, folder.name);
+	return {
+		version,
+		distributionUrl: url.replace(MAVEN_CENTRAL_URL, getRepositoryUrl()), // Mirror if configured
+		distributionSha256Sum: props.distributionSha256Sum || undefined,
+	};
+}
+
+/**
+ * @returns The path of the Maven download directory. The pinned version is side by side (e.g. maven/3.9.6).
+ */
+export function getDownloadDir(): string {
+	return getVersionDir(getPinnedVersion() ?? 'latest');
+}
+
+/**
+ * @param version The Maven version (e.g. 3.9.6).
+ * @returns The path of the version directory side by side with the download directory.
+ */
+export function getVersionDir(version: string): string {
+	return system.getGlobalStoragePath('maven', version);
+}
+
+/**
+ * @param folder The workspace folder.
+ * @returns The bin directory path of the workspace folder configuration (e.g. Maven Wrapper version).
+ */
+export function getFolderBinDir(folder: vscode.WorkspaceFolder): string | undefined {
+	const folderResolved = settings.getWorkspace<string>(CONFIG_NAME_MAVEN_EXE_PATH, folder);
+	return system.joinPathIfPresent(folderResolved, '..');
+}
+
+/**
+ * @returns The pinned Maven version (e.g. 3.9.6). undefined if not pinned.
+ */
+export function getPinnedVersion(): string | undefined {
+	const pinnedVer = settings.getWorkspace<string>(CONFIG_NAME_MAVEN_PINNED_VERSION)?.trim();
+	if (pinnedVer && !/^\d+\.\d+\.\d+[\w.-]*$/.test(pinnedVer)) {
+		log.info('Invalid Settings', CONFIG_NAME_MAVEN_PINNED_VERSION, pinnedVer);
+		return undefined;
+	}
+	return pinnedVer || undefined;
 }
 
 async function resolvePath(configMavenExe?: string): Promise<string | undefined> {
@@ -99,44 +211,74 @@ async function resolvePath(configMavenExe?: string): Promise<string | undefined>
 
 async function httpget(): Promise<string | undefined> {
 
-	// Get Latest Version
-    const URL_PREFIX = 'https://repo.maven.apache.org/maven2/org/apache/maven/apache-maven/';
-	const xml = (await axios.get(URL_PREFIX + 'maven-metadata.xml')).data;
-    const versionTag: string = xml.match(/<version>\d+\.\d+\.\d+<\/version>/g).at(-1) ?? '';
-    const version = versionTag.replace(/<.+?>/g, '');
-
-	// Check Version File
-	const downloadDir = getDownloadDir();
-	const versionFile = path.join(downloadDir, 'version.txt');
-	const versionOld = system.readString(versionFile);
-	if (version === versionOld && existsExe(downloadDir)) {
-		const mdate = system.getLastModified(versionFile);
-		log.info(`Available Maven ${version} (Updated ${mdate})`);
-		return getExePath(downloadDir);
-	}
+	// Get Latest Version (Skip if pinned)
+	const URL_PREFIX = getRepositoryUrl() + '/org/apache/maven/apache-maven/';
+	const version = getPinnedVersion() ?? await fetchLatestVersion(URL_PREFIX);
+	const url = `${URL_PREFIX}${version}/apache-maven-${version}-bin.tar.gz`;
+	return await install(getDownloadDir(), version, url, () => downloader.fetchChecksum(url + '.sha512', 'sha512'));
+}
+
+function getRepositoryUrl(): string {
+	return mirror.baseUrlOf(mirror.CONFIG_NAME_MAVEN_REPOSITORY_URL, MAVEN_CENTRAL_URL);
+}
+
+async function install(
+	downloadDir: string,
+	version: string,
+	url: string,
+	checksumOf: () => Promise<downloader.IChecksum>): Promise<string | undefined> {
 
-    // Download
-	await downloader.execute({
-		url: `${URL_PREFIX}${version}/apache-maven-${version}-bin.tar.gz`,
-		localZipFile: downloadDir + '_download_tmp.tar.gz',
-		extractDestDir: downloadDir,
-		targetLabel: `Maven ${version}`,
+	// Lock for other windows (Reuse the Maven if installed by other window while waiting)
+	return await installLock.withLock(downloadDir, async () => {
+		// Check Version File
+		const versionFile = path.join(downloadDir, 'version.txt');
+		const versionOld = system.readString(versionFile);
+		if (version === versionOld && existsExe(downloadDir)) {
+			const mdate = system.getLastModified(versionFile);
+			log.info(`Available Maven ${version} (Updated ${mdate})`);
+			return getExePath(downloadDir);
+		}
+
+		// Download
+		await downloader.execute({
+			url,
+			localZipFile: downloadDir + '_download_tmp' + (url.endsWith('.zip') ? '.zip' : '.tar.gz'),
+			extractDestDir: downloadDir,
+			targetLabel: `Maven ${version}`,
+			progressLabel: 'Maven',
+			checksum: await checksumOf(),
+			validate: existsExe,
+		});
+
+		// Validate
+		if (!existsExe(downloadDir)) {
+			log.info('Failed download Maven:', downloadDir);
+			return undefined; // Silent: Remove config entry
+		}
+		fs.writeFileSync(versionFile, version); // Sync for catch
+		return getExePath(downloadDir);
 	});
-	
-	// Validate
-	if (!existsExe(downloadDir)) {
-		log.info('Failed download Maven:', downloadDir);
-		return undefined; // Silent: Remove config entry
-	}
-	fs.writeFileSync(versionFile, version); // Sync for catch
-	return getExePath(downloadDir);
 }
 
-function existsExe(homeDir: string) {
+async function fetchLatestVersion(urlPrefix: string): Promise<string> {
+	const xml = await httpClient.getCached(urlPrefix + 'maven-metadata.xml');
+    const versionTag: string = xml.match(/<version>\d+\.\d+\.\d+<\/version>/g).at(-1) ?? '';
+    return versionTag.replace(/<.+?>/g, '');
+}
+
+/**
+ * @param homeDir The home dir of the Maven.
+ * @returns true if the executable exists in the bin dir.
+ */
+export function existsExe(homeDir: string) {
     return system.existsFile(getExePath(homeDir));
 }
 
-function getExePath(homeDir: string) {
+/**
+ * @param homeDir The home dir of the Maven.
+ * @returns The path of the mvn executable.
+ */
+export function getExePath(homeDir: string) {
 	return path.join(homeDir, 'bin', 'mvn');
 }
 
@@ -0,0 +1,47 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as settings from '../settings';
+import { log } from '../system';
+export const CONFIG_NAME_ADOPTIUM_API_URL = 'javaAutoConfig.mirror.adoptiumApiUrl';
+export const CONFIG_NAME_FOOJAY_API_URL = 'javaAutoConfig.mirror.foojayApiUrl';
+export const CONFIG_NAME_JDK_DOWNLOAD_URL = 'javaAutoConfig.mirror.jdkDownloadUrl';
+export const CONFIG_NAME_MAVEN_REPOSITORY_URL = 'javaAutoConfig.mirror.mavenRepositoryUrl';
+export const CONFIG_NAME_GRADLE_VERSIONS_URL = 'javaAutoConfig.mirror.gradleVersionsUrl';
+export const CONFIG_NAME_GRADLE_DOWNLOAD_URL = 'javaAutoConfig.mirror.gradleDownloadUrl';
+
+/**
+ * Returns the base URL of the metadata or repository. The trailing slash is removed.
+ * @param configName The mirror configuration name.
+ * @param defaultUrl The official URL used if the mirror is not configured.
+ * @returns The base URL.
+ */
+export function baseUrlOf(configName: string, defaultUrl: string): string {
+	const url = settings.getWorkspace<string>(configName)?.trim() || defaultUrl;
+	if (url !== defaultUrl) {
+		log.info('Mirror', configName, url);
+	}
+	return url.replace(/\/+$/, '');
+}
+
+/**
+ * Returns the download URL expanded from the mirror template.
+ * e.g. https://nexus.example.com/repository/gradle/gradle-${version}-bin.zip
+ * @param configName The mirror template configuration name.
+ * @param defaultUrl The official URL used if the template is not configured.
+ * @param vars The template variables. Referenced as ${name} in the template.
+ * @returns The download URL.
+ */
+export function downloadUrlOf(configName: string, defaultUrl: string, vars: Record<string, string | number>): string {
+	const template = settings.getWorkspace<string>(configName)?.trim();
+	if (!template) {
+		return defaultUrl;
+	}
+	const url = template.replace(/\$\{(\w+)\}/g, (m, name: string) => {
+		if (vars[name] === undefined) {
+			log.warn(`Unknown variable ${m} in ${configName}`);
+			return m;
+		}
+		return String(vars[name]);
+	});
+	log.info('Mirror', configName, url);
+	return url;
+}
@@ -0,0 +1,179 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as _ from "lodash";
+import * as vscode from 'vscode';
+import { l10n } from 'vscode';
+import * as settings from './settings';
+import { log } from './system';
+export const CONFIG_NAME_CONCURRENCY = 'javaAutoConfig.download.concurrency';
+export const CONFIG_NAME_PROGRESS_LOCATION = 'javaAutoConfig.download.progressLocation';
+export const COMMAND_CANCEL_DOWNLOAD = 'javaAutoConfig.cancelDownload';
+
+/**
+ * An interface for the task context passed to the queued task.
+ */
+export interface IQueueTask {
+	readonly signal: AbortSignal;
+	readonly progress: vscode.Progress<{message: string}>;
+}
+
+type ItemStatus = 'queued' | 'active' | 'done' | 'failed' | 'cancelled';
+
+interface IQueueItem {
+	readonly label: string;
+	readonly controller: AbortController;
+	status: ItemStatus;
+	message?: string;
+}
+
+const items: IQueueItem[] = [];
+const waiters: (() => void)[] = [];
+let activeCount = 0;
+let refreshNotification: (() => void) | undefined;
+let isNotificationShown = false;
+
+/**
+ * Runs the task in the download queue. The number of concurrent tasks is limited by the configuration.
+ * @param label The label of the task shown in the progress.
+ * @param task The task function. The task should stop when the signal is aborted.
+ * @returns A promise that resolves to the task result.
+ * @throws vscode.CancellationError if the task is cancelled by the user.
+ */
+export async function run<T>(label: string, task: (t: IQueueTask) => Promise<T>): Promise<T> {
+	const item: IQueueItem = {label, controller: new AbortController(), status: 'queued'};
+	items.push(item);
+	showNotification();
+	let isAcquired = false;
+	try {
+		await acquire(item.controller.signal);
+		isAcquired = true;
+		item.status = 'active';
+		refresh();
+		const result = await withProgress(item, progress => task({signal: item.controller.signal, progress}));
+		item.status = 'done';
+		return result;
+	} catch (e: unknown) {
+		item.status = item.controller.signal.aborted ? 'cancelled' : 'failed';
+		if (item.status === 'cancelled') {
+			log.info(`Download cancelled ${label}`);
+			throw new vscode.CancellationError();
+		}
+		throw e;
+	} finally {
+		if (isAcquired) {
+			release();
+		}
+		refresh();
+	}
+}
+
+/**
+ * Shows the quick pick to cancel queued or active downloads.
+ */
+export async function showCancelPick() {
+	const cancellables = items.filter(isPending);
+	if (cancellables.length === 0) {
+		vscode.window.showInformationMessage(l10n.t('No downloads in progress.'));
+		return;
+	}
+	const picks = await vscode.window.showQuickPick(
+		cancellables.map(item => ({label: item.label, description: statusLabel(item), item})),
+		{canPickMany: true, placeHolder: l10n.t('Select downloads to cancel')},
+	);
+	picks?.forEach(pick => pick.item.controller.abort());
+}
+
+function isPending(item: IQueueItem) {
+	return item.status === 'queued' || item.status === 'active';
+}
+
+function getConcurrency(): number {
+	return Math.max(1, settings.getWorkspace<number>(CONFIG_NAME_CONCURRENCY) ?? 2);
+}
+
+async function acquire(signal: AbortSignal) {
+	while (activeCount >= getConcurrency()) {
+		await new Promise<void>((resolve, reject) => {
+			const onAbort = () => {
+				_.pull(waiters, next);
+				reject(signal.reason);
+			};
+			const next = () => {
+				signal.removeEventListener('abort', onAbort);
+				resolve();
+			};
+			if (signal.aborted) {
+				reject(signal.reason);
+				return;
+			}
+			signal.addEventListener('abort', onAbort, {once: true});
+			waiters.push(next);
+		});
+	}
+	activeCount++;
+}
+
+function release() {
+	activeCount--;
+	waiters.shift()?.();
+}
+
+async function withProgress<T>(item: IQueueItem, task: (progress: vscode.Progress<{message: string}>) => Promise<T>) {
+	const progressAdapter = (windowProgress?: vscode.Progress<{message: string}>) => ({
+		report(value: {message: string}) {
+			item.message = value.message;
+			windowProgress?.report({message: `Auto Config Java: ${value.message}`});
+			refresh();
+		},
+	});
+	if (isNotificationMode()) {
+		return await task(progressAdapter());
+	}
+	return await vscode.window.withProgress({location: vscode.ProgressLocation.Window}, async windowProgress => {
+		return await task(progressAdapter(windowProgress));
+	});
+}
+
+function isNotificationMode() {
+	return settings.getWorkspace<string>(CONFIG_NAME_PROGRESS_LOCATION) === 'notification';
+}
+
+function statusLabel(item: IQueueItem): string {
+	switch (item.status) {
+		case 'queued': return l10n.t('Queued');
+		case 'active': return item.message ?? l10n.t('Downloading');
+		case 'done': return l10n.t('Done');
+		case 'failed': return l10n.t('Failed');
+		case 'cancelled': return l10n.t('Cancelled');
+	}
+}
+
+function refresh() {
+	refreshNotification?.();
+	if (!isNotificationShown && !items.some(isPending)) {
+		items.length = 0; // Clear finished items for next session
+	}
+}
+
+function showNotification() {
+	if (!isNotificationMode() || isNotificationShown) {
+		return;
+	}
+	isNotificationShown = true;
+	vscode.window.withProgress({
+		location: vscode.ProgressLocation.Notification,
+		title: 'Auto Config Java',
+		cancellable: true,
+	}, (progress, token) => new Promise<void>(resolve => {
+		token.onCancellationRequested(() => items.filter(isPending).forEach(item => item.controller.abort()));
+		refreshNotification = () => {
+			const lines = items.map(item => `${item.label}: ${statusLabel(item)}`);
+			progress.report({message: lines.join(', ')});
+			if (!items.some(isPending)) {
+				refreshNotification = undefined;
+				isNotificationShown = false;
+				resolve();
+			}
+		};
+		refreshNotification();
+	}));
+}
@@ -1,5 +1,6 @@
 /*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
 import axios from 'axios';
+import * as crypto from 'crypto';
 import decompress from 'decompress';
 import * as fs from 'fs';
 import * as _ from "lodash";
@@ -8,6 +9,8 @@ import { setTimeout } from 'timers/promises';
 import { promisify } from 'util';
 import * as vscode from 'vscode';
 import { l10n } from 'vscode';
+import * as downloadQueue from './downloadQueue';
+import * as httpClient from './httpClient';
 import * as system from './system';
 import { OS, log } from './system';
 
@@ -19,7 +22,34 @@ export interface IDownloaderRequest {
     readonly localZipFile: string,
     readonly extractDestDir: string,
     readonly targetLabel: string,
+    readonly progressLabel?: string, // Short label for the download progress (e.g. JDK). targetLabel if undefined
     removeLeadingPath?: number,
+    checksum?: IChecksum,
+    keepLocalZipFile?: boolean,
+    validate?: (extractedDir: string) => boolean | Promise<boolean>,
+}
+
+/**
+ * An interface for the expected digest of the downloaded file.
+ */
+export interface IChecksum {
+    readonly algorithm: 'sha256' | 'sha512',
+    readonly value: string,
+}
+
+/**
+ * Fetches the digest file published next to the archive (e.g. xxx.zip.sha256).
+ * @param url The URL of the digest file.
+ * @param algorithm The digest algorithm.
+ * @returns A promise that resolves to the checksum.
+ */
+export async function fetchChecksum(url: string, algorithm: IChecksum['algorithm']): Promise<IChecksum> {
+    const text = String((await httpClient.get(url, {responseType: 'text'})).data);
+    const value = text.trim().split(/\s+/)[0]; // Remove trailing file name if present
+    if (!/^[0-9a-f]+$/i.test(value)) {
+        throw new Error(`Invalid ${algorithm} digest file ${url}`);
+    }
+    return {algorithm, value};
 }
 
 /**
@@ -28,20 +58,42 @@ export interface IDownloaderRequest {
  * @returns A promise that resolves when the download and extract are completed.
  */
 export async function execute(req: IDownloaderRequest) {
-    await vscode.window.withProgress({location: vscode.ProgressLocation.Window}, async progress => {
+    await downloadQueue.run(req.targetLabel, async ({signal, progress}) => {
         try {
-            await download(progress, req);
+            restoreBackup(req.extractDestDir);
+            await download(progress, req, signal);
+            signal.throwIfAborted();
+            await verify(req);
+            signal.throwIfAborted(); // Extraction is not cancellable after started
             await extract(progress, req);
 		} catch (e: unknown) {
-            // Silent: offline, 404, 503 proxy auth error, or etc.
+            if (signal.aborted) {
+                // Cancelled by user: Not an error, clean up the downloaded file
+                system.rmSyncQuietly(req.localZipFile);
+                system.rmSyncQuietly(resumeFileOf(req));
+                throw e;
+            }
+            // Silent: offline, 404, or etc. (Show diagnostic if proxy error)
             log.info(`Download failed ${req.url}`, e);
+            httpClient.diagnose(e);
             throw e; // Do not update version file (Retry next time)
         }
     });
 }
 
+/**
+ * Extracts the local archive file without downloading.
+ * @param req The request. localZipFile is kept if keepLocalZipFile is true.
+ * @returns A promise that resolves when the extract is completed.
+ */
+export async function extractLocal(req: IDownloaderRequest) {
+    await downloadQueue.run(req.targetLabel, async ({progress}) => {
+        await extract(progress, req);
+    });
+}
+
 function report(progress: vscode.Progress<{message: string}>, msg: string) {
-    progress.report({message: `Auto Config Java: ${msg}`});
+    progress.report({message: msg});
 }
 
 class DownloadState {
@@ -63,20 +115,92 @@ class DownloadState {
 	}
 }
 
-async function download(progress: vscode.Progress<{message: string}>, req: IDownloaderRequest) {
+const MAX_RETRIES = 5;
+const MAX_RETRY_WAIT_MS = 30_000;
+const STALL_TIMEOUT_MS = 30_000;
+
+async function download(progress: vscode.Progress<{message: string}>, req: IDownloaderRequest, signal: AbortSignal) {
     log.info(`Download START ${req.targetLabel}`, req.url);
     const state = DownloadState.getInstance();
     const isCreatedExtractDir = system.mkdirSyncQuietly(req.extractDestDir);
+    // Show if not usable yet, including a first install resumed in a later activation
+    const isInstalled = req.validate ? await req.validate(req.extractDestDir) : !isCreatedExtractDir;
     const isShowProgressLaunchJson = process.env.VSCODE_AUTO_CONFIG_SHOW_PROGRESS === 'true';
-    const res = await axios.get(req.url, {responseType: 'stream'});
+    const isShowProgress = !isInstalled || isShowProgressLaunchJson;
+    try {
+        for (let retry = 0; ; retry++) {
+            try {
+                await downloadPart(progress, req, state, isShowProgress, signal);
+                break;
+            } catch (e: unknown) {
+                if (retry >= MAX_RETRIES || signal.aborted || !isRetryable(e)) {
+                    throw e;
+                }
+                const waitMs = Math.min(1_000 * 2 ** retry, MAX_RETRY_WAIT_MS); // Exponential backoff
+                log.info(`Download RETRY ${retry + 1}/${MAX_RETRIES} after ${waitMs}ms ${req.targetLabel}: ${e}`);
+                await setTimeout(waitMs);
+            }
+        }
+    } finally {
+        state.downloadingMsgs ??= [];
+        _.pull(state.downloadingMsgs, req.targetLabel);
+        await state.store();
+        log.info(`Download END ${req.targetLabel}`);
+    }
+}
+
+/**
+ * Downloads the file, resuming from the existing temp file using HTTP Range request.
+ */
+async function downloadPart(
+    progress: vscode.Progress<{message: string}>,
+    req: IDownloaderRequest,
+    state: DownloadState,
+    isShowProgress: boolean,
+    signal: AbortSignal) {
+
+    // Resume only if the temp file belongs to the same URL (e.g. not previous version)
+    const resumeFile = resumeFileOf(req);
+    const resume = JSON.parse(system.readString(resumeFile) || '{}');
+    let offset = resume.url === req.url && system.existsFile(req.localZipFile)
+        ? fs.statSync(req.localZipFile).size
+        : 0;
+    const headers: Record<string, string> = {};
+    if (offset > 0) {
+        headers.Range = `bytes=${offset}-`;
+        if (resume.validator) {
+            headers['If-Range'] = resume.validator; // 200 full content if changed on server
+        }
+        log.info(`Download RESUME ${req.targetLabel} from ${offset} bytes`);
+    }
+    const res = await httpClient.get(req.url, {
+        responseType: 'stream',
+        headers,
+        signal,
+        validateStatus: status => (status >= 200 && status < 300) || status === 416,
+    });
+    if (res.status === 416) { // Range Not Satisfiable
+        res.data.destroy();
+        system.rmSyncQuietly(req.localZipFile);
+        system.rmSyncQuietly(resumeFile);
+        throw new Error(`Range not satisfiable, restart download ${req.targetLabel}`);
+    }
+    const isResumed = res.status === 206;
+    if (!isResumed) {
+        offset = 0;
+    }
+    const etag: string | undefined = res.headers['etag'];
+    const validator = etag && !etag.startsWith('W/') ? etag : res.headers['last-modified'];
+    fs.writeFileSync(resumeFile, JSON.stringify({url: req.url, validator}));
 
-    if (isCreatedExtractDir || isShowProgressLaunchJson) {
-        const msg = `${l10n.t('Downloading')}... ${req.targetLabel.replace(/[^A-z].*$/, '')}`;
+    if (isShowProgress) {
+        const msg = `${l10n.t('Downloading')}... ${req.progressLabel ?? req.targetLabel}`;
         report(progress, msg);
         
-        const totalLength = res.headers['content-length'];
-        if (totalLength) {
-            let currentLength = 0;
+        const contentLength = Number(res.headers['content-length']);
+        if (contentLength) {
+            const totalLength = offset + contentLength;
+            let currentLength = offset;
             
             res.data.on('data', async (chunk: Buffer) => {
                 currentLength += chunk.length;
@@ -95,40 +219,137 @@ async function download(progress: vscode.Progress<{message: string}>, req: IDown
             });
         }
     }
+
+    const onAbort = () => res.data.destroy(signal.reason);
+    signal.addEventListener('abort', onAbort, {once: true});
+
+    // Stall detection: Abort if no data received for a while
+    let lastReceived = Date.now();
+    res.data.on('data', () => lastReceived = Date.now());
+    const stallTimer = setInterval(() => {
+        if (Date.now() - lastReceived > STALL_TIMEOUT_MS) {
+            res.data.destroy(new Error(`Download stalled ${STALL_TIMEOUT_MS}ms ${req.targetLabel}`));
+        }
+    }, 1_000);
     try {
-        const writer = fs.createWriteStream(req.localZipFile); // Overwrite
-        res.data.pipe(writer);
-        await promisify(stream.finished)(writer);
+        const writer = fs.createWriteStream(req.localZipFile, {flags: isResumed ? 'a' : 'w'});
+        await promisify(stream.pipeline)(res.data, writer);
     } finally {
-        state.downloadingMsgs ??= [];
-        _.pull(state.downloadingMsgs, req.targetLabel);
-        await state.store();
-        log.info(`Download END ${req.targetLabel}`);
+        clearInterval(stallTimer);
+        signal.removeEventListener('abort', onAbort);
+    }
+    system.rmSyncQuietly(resumeFile); // Completed
+}
+
+function resumeFileOf(req: IDownloaderRequest) {
+    return req.localZipFile + '.resume.json';
+}
+
+function isRetryable(e: unknown): boolean {
+    if (axios.isAxiosError(e) && e.response) {
+        const status = e.response.status;
+        return status >= 500 || status === 408 || status === 429;
     }
+    const code = (e as NodeJS.ErrnoException)?.code;
+    if (code && ['ENOSPC', 'EACCES', 'EPERM', 'EROFS'].includes(code)) {
+        return false; // Local file system error
+    }
+    return true; // Network error, stalled, or etc.
+}
+
+async function verify(req: IDownloaderRequest) {
+    if (!req.checksum) {
+        return;
+    }
+    const {algorithm, value} = req.checksum;
+    const hash = crypto.createHash(algorithm);
+    await promisify(stream.pipeline)(fs.createReadStream(req.localZipFile), hash);
+    const actual = hash.digest('hex');
+    if (actual.toLowerCase() !== value.toLowerCase()) {
+        system.rmSyncQuietly(req.localZipFile);
+        const msg = `Checksum mismatch ${req.targetLabel} ${algorithm}\n  expected: ${value}\n  actual  : ${actual}`;
+        log.error(msg, req.url);
+        throw new Error(msg); // Do not extract
+    }
+    log.info(`Checksum OK ${req.targetLabel} ${algorithm} ${actual}`);
 }
 
 async function extract(progress: vscode.Progress<{message: string}>, opt: IDownloaderRequest) {
     log.info(`Extract START ${opt.targetLabel}`, opt.extractDestDir);
     const state = DownloadState.getInstance();
+    const stagingDir = opt.extractDestDir + '_staging';
     try {
         const procLabel = system.existsDirectory(opt.extractDestDir) ? l10n.t('Updating') : l10n.t('Installing');
         const msg = `${procLabel}... ${opt.targetLabel}`;
         state.extractingMsg = msg;
         await state.store();
         report(progress, msg);
-        system.rmSyncQuietly(opt.extractDestDir);
+
+        // Extract to staging dir, keep previous version until validated
+        system.rmSyncQuietly(stagingDir);
         try {
-            await decompress(opt.localZipFile, opt.extractDestDir, {strip: opt.removeLeadingPath ?? 1});
-            system.rmQuietly(opt.localZipFile);
+            await decompress(opt.localZipFile, stagingDir, {strip: opt.removeLeadingPath ?? 1});
         } catch (e: unknown) {
             log.info('Failed extract:', e); // Validate later
             if (OS.isWindows) {
                 await setTimeout(5_000); // Wait for Windows delayed writes (200ms x, 300ms o)
             }
         }
+        const isValid = opt.validate ? await opt.validate(stagingDir) : system.existsDirectory(stagingDir);
+        if (!isValid) {
+            throw new Error(`Invalid extracted files ${opt.targetLabel} ${stagingDir}`); // Keep previous version
+        }
+        replaceDirectory(stagingDir, opt.extractDestDir);
+        if (!opt.keepLocalZipFile) {
+            system.rmQuietly(opt.localZipFile);
+        }
     } finally {
+        system.rmSyncQuietly(stagingDir); // Not exists if replaced
         state.extractingMsg = undefined;
         await state.store();
         log.info(`Extract END ${opt.targetLabel}`);
     }
 }
+
+/**
+ * Replaces the destination directory with the source directory using rename.
+ * The previous destination is kept as a backup until the replacement succeeds.
+ * @param srcDir The validated source directory. Moved to destDir.
+ * @param destDir The destination directory.
+ * @throws Error if the replacement fails. The previous destination is restored.
+ */
+export function replaceDirectory(srcDir: string, destDir: string) {
+    const backupDir = destDir + '_backup';
+    restoreBackup(destDir);
+    system.rmSyncQuietly(backupDir);
+    const existsOld = fs.existsSync(destDir);
+    if (existsOld) {
+        fs.renameSync(destDir, backupDir); // Sync for catch (e.g. Windows EPERM file in use)
+    }
+    try {
+        fs.renameSync(srcDir, destDir);
+    } catch (e: unknown) {
+        if (existsOld) {
+            fs.renameSync(backupDir, destDir); // Rollback
+        }
+        throw e;
+    }
+    system.rmQuietly(backupDir);
+}
+
+/**
+ * Restores the backup if the previous replacement was interrupted (e.g. crash after backup).
+ * @param destDir The destination directory.
+ */
+function restoreBackup(destDir: string) {
+    const backupDir = destDir + '_backup';
+    if (!system.existsDirectory(backupDir)) {
+        return;
+    }
+    const isEmptyDest = !fs.existsSync(destDir) || fs.readdirSync(destDir).length === 0; // Empty: mkdir for progress
+    if (isEmptyDest) {
+        log.info('Restore interrupted install backup', backupDir);
+        system.rmSyncQuietly(destDir);
+        fs.renameSync(backupDir, destDir);
+    }
+}
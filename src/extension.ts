@@ -4,16 +4,22 @@ import * as _ from "lodash";
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { l10n } from 'vscode';
+import * as buildDiagnostics from './buildDiagnostics';
+import * as archive from './download/archive';
 import * as gradle from './download/gradle';
 import * as jdk from './download/jdk';
 import * as maven from './download/maven';
+import * as downloadQueue from './downloadQueue';
+import * as jdkCache from './jdkCache';
 import * as jdkExplorer from './jdkExplorer';
+import * as projectVersion from './projectVersion';
 import * as redhat from './redhat';
 import * as settings from './settings';
 import { Profile } from './settings';
 import { SettingState } from './SettingState';
 import * as system from './system';
 import { OS, log } from './system';
+import * as updateCheck from './updateCheck';
 
 /**
  * Activates the extension.
@@ -28,12 +34,14 @@ export async function activate(context: vscode.ExtensionContext) {
 		copyRcfile();
 		setTerminalEnvironment();
 		const javaConfig = await redhat.getJavaConfig();
+		registerCommands(context, javaConfig);
 
 		if (!settings.getWorkspace(settings.AUTO_CONFIG_ENABLED)) {
 			log.info(`${settings.AUTO_CONFIG_ENABLED}: false`);
 			setChangeEvent(javaConfig);
 			return;
 		}
+		buildDiagnostics.register(context, javaConfig);
 		const state = SettingState.getInstance();
 		if (state.isEventProcessing) {
 			log.info('Activate canceled due to processing');
@@ -46,8 +54,11 @@ export async function activate(context: vscode.ExtensionContext) {
 			const runtimesOld = _.cloneDeep(runtimes);
 			await detect(javaConfig, runtimes);
 			await download(javaConfig, runtimes);
+			gradle.offerWrapperJavaDownload(javaConfig, runtimes) // Without await for message
+				.catch(e => log.warn('Failed offer Gradle Wrapper Java download', e));
 			showMessage(javaConfig, runtimes, runtimesOld, isFirstStartup);
 			setTerminalEnvironment();
+			setUpdateTimer(context, javaConfig);
 			
 		} finally {
 			// Wait for another window event on change default profile
@@ -65,6 +76,50 @@ export async function activate(context: vscode.ExtensionContext) {
 	}
 }
 
+/**
+ * Registers the commands.
+ * @param context The extension context.
+ * @param javaConfig The Java configuration.
+ */
+function registerCommands(context: vscode.ExtensionContext, javaConfig: redhat.IJavaConfig) {
+	context.subscriptions.push(
+		vscode.commands.registerCommand(archive.COMMAND_INSTALL_ARCHIVE, () => archive.installFromFile(javaConfig)),
+		vscode.commands.registerCommand(downloadQueue.COMMAND_CANCEL_DOWNLOAD, () => downloadQueue.showCancelPick()),
+		vscode.commands.registerCommand(jdkExplorer.COMMAND_RESCAN, () => rescan(javaConfig)),
+	);
+}
+
+/**
+ * Clears the JDK detection cache and detects the installed JDK again.
+ * @param javaConfig The Java configuration.
+ */
+async function rescan(javaConfig: redhat.IJavaConfig) {
+	jdkCache.clear();
+	const runtimes = settings.getJavaConfigRuntimes();
+	await detect(javaConfig, runtimes);
+	setTerminalEnvironment();
+	const vers = runtimes.map(r => redhat.versionOf(r.name));
+	vscode.window.showInformationMessage(`${l10n.t('Available Java versions:')} ${vers.join(', ')}`);
+}
+
+/**
+ * Sets the background timer to check updates in long-running sessions.
+ * @param context The extension context.
+ * @param javaConfig The Java configuration.
+ */
+function setUpdateTimer(context: vscode.ExtensionContext, javaConfig: redhat.IJavaConfig) {
+	context.subscriptions.push(updateCheck.startTimer(async () => {
+		if (!settings.getWorkspace(settings.AUTO_CONFIG_ENABLED)) {
+			return;
+		}
+		await SettingState.lockUpdate(async () => {
+			const runtimes = settings.getJavaConfigRuntimes();
+			await download(javaConfig, runtimes);
+			setTerminalEnvironment();
+		});
+	}));
+}
+
 /**
  * Copies the rcfile files.
  */
@@ -96,17 +151,28 @@ async function setTerminalEnvironment() {
 	// https://github.com/microsoft/vscode-maven/issues/991#issuecomment-1940414022
 	const mavenBinDir = await maven.getWorkspaceBinDir();
 	const gradleBinDir = await gradle.getWorkspaceBinDir();
-	const toolsPath = [gradleBinDir, mavenBinDir].filter(Boolean).join(path.delimiter);
-	if (!toolsPath) {
-		return;
-	}
+	const _toolsPath = (mavenDir?: string) => [gradleBinDir, mavenDir].filter(Boolean).join(path.delimiter);
 
-	// Set env var by workspace folder
+	// Set env var by workspace folder (Maven Wrapper version and JAVA_HOME by folder)
 	const globalEnv = system.getExtensionContext().environmentVariableCollection;
-	const folderEnvs = vscode.workspace.workspaceFolders?.map(f => globalEnv.getScoped({workspaceFolder: f})) ?? [];
+	const folderEnvs = vscode.workspace.workspaceFolders?.map(f => ({
+		envVarColl: globalEnv.getScoped({workspaceFolder: f}),
+		toolsPath: _toolsPath(maven.getFolderBinDir(f)),
+		javaHome: projectVersion.findFolderRuntime(f)?.path,
+	})) ?? [];
+	const workspaceEnv = {envVarColl: globalEnv, toolsPath: _toolsPath(mavenBinDir), javaHome: undefined};
 
-	for (const envVarColl of folderEnvs.concat(globalEnv)) {
-		envVarColl.clear(); // Clear persisted values (Not cleared on restart)
+	// Clear persisted values (Not cleared on restart), clearing global also clears the scoped collections
+	globalEnv.clear();
+	for (const {envVarColl, toolsPath, javaHome} of [workspaceEnv, ...folderEnvs]) {
+		// [Mac/Linux] Use custom rcfile in zsh/bash (Ignored in the Java version profiles)
+		// [Windows] Not set: The JAVA_HOME of the Java version profiles cannot opt out of the env var collection
+		if (javaHome && !OS.isWindows) {
+			envVarColl.replace('AUTO_CONFIG_JAVA_HOME', javaHome);
+		}
+		if (!toolsPath) {
+			continue;
+		}
 
 		// Terminal all profiles common PATH prefix
 		if (OS.isWindows) {
@@ -121,20 +187,15 @@ async function setTerminalEnvironment() {
 			envVarColl.replace('AUTO_CONFIG_PATH', toolsPath);
 		}
 
-		// Pending: Gradle Toolchains env var for Terminal (Because not working Gradle Task UI)
-		//envVarColl.replace('ORG_GRADLE_PROJECT_org.gradle.java.installations.paths', 'D:\\pleiades\\2023-12\\java\\8,D:\\pleiades\\2023-12\\java\\11,D:\\pleiades\\2023-12\\java\\17,D:\\pleiades\\2023-12\\java\\21');
-
-		// Pending: Gradle Toolchains for Task UI not working in settings.json:
+		// Gradle Toolchains for Terminal and Task UI: gradle.properties in Gradle user home (toolchains.ts)
+		// Env var and settings.json are not working for Task UI:
 		// * automationProfile > env -> https://github.com/microsoft/vscode/issues/140261
 		// * "java.gradle.buildServer.enabled": "off"
 		// * java.import.gradle.jvmArguments, arguments
-		//   "-DJAVA_TOOL_OPTIONS=-DORG_GRADLE_PROJECT_org.gradle.java.installations.paths=D:\\pleiades\\2023-12\\java\\8,D:\\pleiades\\2023-12\\java\\11,D:\\pleiades\\2023-12\\java\\17,D:\\pleiades\\2023-09\\java\\21",
 
-		// Pending: Set JAVA_HOME from workspace default runtime
-		// Known Issue: JAVA_HOME is not reflected even if set (e.g. java.import.gradle.java.home)
+		// Known Issue: JAVA_HOME by folder is not reflected in Gradle Task UI (e.g. java.import.gradle.java.home)
 		// Open) https://github.com/microsoft/vscode/issues/152806#issuecomment-1785065199
 		// Open) https://github.com/microsoft/vscode-gradle/issues/1173
-		//envVarColl.replace('JAVA_HOME', 'D:\\pleiades\\2023-06\\java\\17');
 	}
 }
 
@@ -165,19 +226,25 @@ async function download(
 		log.info(`Download disabled (extensions.autoUpdate: false)`);
 		return;
 	}
-	const downloadVers = [...javaConfig.downloadLtsVers, javaConfig.latestAvailableVer];
+	const projectVers = projectVersion.getRequiredVersions().filter(v => javaConfig.availableVers.includes(v));
+	const downloadVers = [...javaConfig.downloadLtsVers, javaConfig.latestAvailableVer, ...projectVers];
 	const orderDescVers = _.uniq(downloadVers).sort((a,b) => b-a); // Reverse order
 	if (!jdk.isTargetPlatform) {
 		log.info(`Download disabled JDK (${process.platform}/${process.arch})`);
 		orderDescVers.length = 0;
 	}
+	const isUpdateCheck = updateCheck.startIfDue();
 	const runtimesBefore = _.cloneDeep(runtimes);
 	const promises = [
-		...orderDescVers.map(ver => jdk.download(javaConfig, runtimes, ver)),
-		gradle.download(),
-		maven.download(),
+		...orderDescVers.map(ver => jdk.download(javaConfig, runtimes, ver, isUpdateCheck)),
+		gradle.download(isUpdateCheck),
+		gradle.downloadWrapperDistributions(),
+		maven.download(isUpdateCheck).then(maven.downloadWrapperVersions),
 	];
 	await Promise.allSettled(promises);
+	if (isUpdateCheck) {
+		updateCheck.finish();
+	}
 	await settings.updateJavaRuntimes(javaConfig, runtimes, runtimesBefore);
 }
 
@@ -311,11 +378,17 @@ function setChangeEvent(javaConfig: redhat.IJavaConfig) {
 			}
 
 			// Reconfigure Terminal Profiles
-			if (event.affectsConfiguration(redhat.JavaConfigRuntimes.CONFIG_NAME)) {
+			if (
+				event.affectsConfiguration(redhat.JavaConfigRuntimes.CONFIG_NAME) ||
+				event.affectsConfiguration(jdkExplorer.CONFIG_NAME_JDK_SEARCH_PATHS) ||
+				event.affectsConfiguration(jdkExplorer.CONFIG_NAME_JDK_EXCLUDE_PATHS) ||
+				event.affectsConfiguration(settings.CONFIG_NAME_CONFIGURATION_TARGET)
+			) {
 				/* For catch */ await SettingState.lockUpdate(async (state) => {
 					log.info(`Change Event: ${redhat.JavaConfigRuntimes.CONFIG_NAME}`);
 					const runtimes = settings.getJavaConfigRuntimes();
 					await detect(javaConfig, runtimes); // Freeze without await
+					await setTerminalEnvironment(); // JAVA_HOME by folder
 					// Don't download due to heavy processing on event
 					//await download(javaConfig, runtimes);
 				});
@@ -0,0 +1,180 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import * as https from 'https';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import * as path from 'path';
+import * as tls from 'tls';
+import * as vscode from 'vscode';
+import { l10n } from 'vscode';
+import * as settings from './settings';
+import * as system from './system';
+import { log } from './system';
+export const CONFIG_NAME_CA_CERTIFICATES = 'javaAutoConfig.http.caCertificates';
+
+/**
+ * Sends the HTTP GET request with VS Code proxy settings, environment proxy variables and custom CA certificates.
+ * @param url The request URL.
+ * @param config The axios request config.
+ * @returns A promise that resolves to the axios response.
+ */
+export async function get<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+	return await axios.get<T>(url, {...agentsOf(url), ...config});
+}
+
+/**
+ * An interface for the cached metadata response.
+ */
+interface ICachedResponse {
+	readonly url: string;
+	readonly etag?: string;
+	readonly lastModified?: string;
+	readonly data: any;
+}
+
+/**
+ * Sends the HTTP GET request for the metadata with ETag and If-Modified-Since caching.
+ * If the server responds 304 Not Modified, the cached response data is returned.
+ * @param url The request URL.
+ * @returns A promise that resolves to the response data.
+ */
+export async function getCached<T = any>(url: string): Promise<T> {
+	const hash = crypto.createHash('sha1').update(url).digest('hex');
+	const cacheFile = system.getGlobalStoragePath('.http_cache', hash + '.json');
+	const cache = readCache(cacheFile, url);
+	const headers: Record<string, string> = {};
+	if (cache?.etag) {headers['If-None-Match'] = cache.etag;}
+	if (cache?.lastModified) {headers['If-Modified-Since'] = cache.lastModified;}
+	const res = await get<T>(url, {
+		headers,
+		validateStatus: status => (status >= 200 && status < 300) || (status === 304 && !!cache),
+	});
+	if (res.status === 304 && cache) {
+		log.info('Not Modified', url);
+		return cache.data;
+	}
+	const etag = res.headers['etag'];
+	const lastModified = res.headers['last-modified'];
+	if (etag || lastModified) {
+		try {
+			const newCache: ICachedResponse = {url, etag, lastModified, data: res.data};
+			system.mkdirSyncQuietly(path.dirname(cacheFile));
+			fs.writeFileSync(cacheFile, JSON.stringify(newCache));
+		} catch (e: unknown) {
+			log.info('Failed write http cache', cacheFile, e); // Silent
+		}
+	}
+	return res.data;
+}
+
+function readCache(cacheFile: string, url: string): ICachedResponse | undefined {
+	try {
+		const cache: ICachedResponse = JSON.parse(system.readString(cacheFile) || 'null');
+		return cache?.url === url ? cache : undefined;
+	} catch (e: unknown) {
+		return undefined; // Corrupted: Request without cache
+	}
+}
+
+function agentsOf(url: string): AxiosRequestConfig {
+	const strictSSL = settings.getWorkspace<boolean>('http.proxyStrictSSL') ?? true;
+	const ca = getCaCertificates();
+	const tlsOptions: tls.ConnectionOptions = {rejectUnauthorized: strictSSL, ...(ca ? {ca} : {})};
+	const proxyUrl = proxyUrlOf(url);
+	if (!proxyUrl) {
+		return {
+			httpsAgent: new https.Agent(tlsOptions),
+			proxy: false, // Disable axios built-in env proxy (NO_PROXY is checked above)
+		};
+	}
+	const proxyAuth = settings.getWorkspace<string>('http.proxyAuthorization');
+	const headers = proxyAuth ? {'Proxy-Authorization': proxyAuth} : undefined;
+	return {
+		httpAgent: new HttpProxyAgent(proxyUrl, {headers}),
+		httpsAgent: new HttpsProxyAgent(proxyUrl, {headers, ...tlsOptions}),
+		proxy: false,
+	};
+}
+
+/**
+ * @param url The request URL.
+ * @returns The proxy URL. undefined if direct connection.
+ */
+function proxyUrlOf(url: string): string | undefined {
+	const target = new URL(url);
+	if (isNoProxy(target)) {
+		return undefined;
+	}
+	const env = process.env;
+	const envProxy = target.protocol === 'https:'
+		? env.HTTPS_PROXY ?? env.https_proxy ?? env.HTTP_PROXY ?? env.http_proxy
+		: env.HTTP_PROXY ?? env.http_proxy;
+	return settings.getWorkspace<string>('http.proxy') || envProxy || undefined;
+}
+
+function isNoProxy(target: URL): boolean {
+	const env = process.env;
+	const patterns = [
+		...settings.getWorkspace<string[]>('http.noProxy') ?? [],
+		...(env.NO_PROXY ?? env.no_proxy ?? '').split(','),
+	].map(s => s.trim().toLowerCase()).filter(Boolean);
+	const host = target.hostname.toLowerCase();
+	const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+	return patterns.some(pattern => {
+		if (pattern === '*') {return true;}
+		const [patternHost, patternPort] = pattern.split(':');
+		if (patternPort && patternPort !== port) {return false;}
+		const domain = patternHost.replace(/^\*?\./, ''); // e.g. .example.com, *.example.com
+		return host === domain || host.endsWith('.' + domain);
+	});
+}
+
+function getCaCertificates(): string[] | undefined {
+	const caFiles = settings.getWorkspace<string[]>(CONFIG_NAME_CA_CERTIFICATES) ?? [];
+	const customCerts = caFiles.flatMap(file => {
+		try {
+			return [fs.readFileSync(file).toString()];
+		} catch (e: unknown) {
+			log.warn('Failed read CA certificate', file, e);
+			return [];
+		}
+	});
+	// Note: NODE_EXTRA_CA_CERTS is applied by Node.js default
+	return customCerts.length > 0 ? [...tls.rootCertificates, ...customCerts] : undefined;
+}
+
+let isDiagnosticShown = false;
+
+/**
+ * Shows a diagnostic message if the HTTP error is caused by the proxy or certificates.
+ * Other errors (e.g. offline, 404) are silent.
+ * @param e The error thrown by get().
+ */
+export function diagnose(e: unknown) {
+	if (!axios.isAxiosError(e) || isDiagnosticShown) {
+		return;
+	}
+	const proxyUrl = e.config?.url ? proxyUrlOf(e.config.url) : undefined;
+	const maskedProxy = proxyUrl?.replace(/\/\/[^@/]+@/, '//***@') ?? '';
+	let msg: string | undefined;
+	if (e.response?.status === 407) {
+		msg = `${l10n.t('Download failed due to proxy authentication (407). Check the http.proxy and http.proxyAuthorization settings:')} ${maskedProxy}`;
+	} else if (proxyUrl && !e.response && ['ECONNREFUSED', 'ENOTFOUND', 'ETIMEDOUT', 'ECONNRESET'].includes(e.code ?? '')) {
+		msg = `${l10n.t('Download failed because the proxy server could not be reached:')} ${maskedProxy} (${e.code})`;
+	} else if (/CERT|SELF_SIGNED|UNABLE_TO_VERIFY/.test(e.code ?? '')) {
+		msg = `${l10n.t('Download failed due to a certificate error. Check the javaAutoConfig.http.caCertificates or http.proxyStrictSSL settings:')} ${e.code}`;
+	}
+	if (!msg) {
+		return;
+	}
+	isDiagnosticShown = true; // Once per session
+	log.warn(msg, e.config?.url);
+	const settingsLabel = l10n.t('Open Settings');
+	vscode.window.showWarningMessage(`Auto Config Java: ${msg}`, settingsLabel).then(selection => {
+		if (selection === settingsLabel) {
+			vscode.commands.executeCommand('workbench.action.openSettings', 'http.proxy');
+		}
+	});
+}
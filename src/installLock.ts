@@ -0,0 +1,112 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { setTimeout } from 'timers/promises';
+import * as system from './system';
+import { log } from './system';
+
+/**
+ * An interface for the lock file content.
+ */
+interface ILockOwner {
+	readonly pid: number;
+	readonly hostname: string;
+	readonly time: number;
+}
+
+const POLL_MS = 2_000;
+const HEARTBEAT_MS = 10_000;
+const STALE_MS = 60_000; // No heartbeat: Crashed or suspended
+
+/**
+ * Runs the callback while holding the lock of the install directory in the global storage.
+ * The global storage is shared by all VS Code windows (processes), so other windows wait
+ * until the lock is released and then see the installed version instead of racing.
+ * @param installDir The install directory (e.g. java/21).
+ * @param callback The callback function. Check the installed version first to reuse it.
+ * @returns A promise that resolves to the callback result.
+ */
+export async function withLock<T>(installDir: string, callback: () => Promise<T>): Promise<T> {
+	const lockFile = installDir + '.lock';
+	system.mkdirSyncQuietly(path.join(installDir, '..'));
+	await acquire(lockFile);
+	const heartbeat = setInterval(() => writeOwner(lockFile), HEARTBEAT_MS);
+	try {
+		return await callback();
+	} finally {
+		clearInterval(heartbeat);
+		if (readOwner(lockFile)?.pid === process.pid) {
+			system.rmSyncQuietly(lockFile);
+		}
+	}
+}
+
+async function acquire(lockFile: string) {
+	let isWaitLogged = false;
+	for (;;) {
+		try {
+			fs.writeFileSync(lockFile, ownerJson(), {flag: 'wx'}); // Atomic create
+			return;
+		} catch (e: unknown) {
+			if ((e as NodeJS.ErrnoException).code !== 'EEXIST') {
+				throw e;
+			}
+		}
+		if (isStale(lockFile)) {
+			log.info('Remove stale lock', lockFile, system.readString(lockFile));
+			system.rmSyncQuietly(lockFile);
+			continue;
+		}
+		if (!isWaitLogged) {
+			log.info('Waiting for install by another window', lockFile, system.readString(lockFile));
+			isWaitLogged = true;
+		}
+		await setTimeout(POLL_MS);
+	}
+}
+
+function isStale(lockFile: string): boolean {
+	const owner = readOwner(lockFile);
+	if (!owner) { // Writing or corrupted
+		try {
+			return Date.now() - fs.statSync(lockFile).mtimeMs > STALE_MS;
+		} catch (e: unknown) {
+			return false; // Removed by owner, retry
+		}
+	}
+	if (owner.hostname === os.hostname() && !isAlive(owner.pid)) {
+		return true;
+	}
+	return Date.now() - owner.time > STALE_MS; // Other host (e.g. network home dir) or hung
+}
+
+function isAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0); // Check only, no signal is sent
+		return true;
+	} catch (e: unknown) {
+		return (e as NodeJS.ErrnoException).code === 'EPERM'; // Exists but other user
+	}
+}
+
+function ownerJson(): string {
+	const owner: ILockOwner = {pid: process.pid, hostname: os.hostname(), time: Date.now()};
+	return JSON.stringify(owner);
+}
+
+function writeOwner(lockFile: string) {
+	try {
+		fs.writeFileSync(lockFile, ownerJson());
+	} catch (e: unknown) {
+		log.info('Failed heartbeat lock', lockFile, e); // Silent
+	}
+}
+
+function readOwner(lockFile: string): ILockOwner | undefined {
+	try {
+		return JSON.parse(system.readString(lockFile) || 'null') ?? undefined;
+	} catch (e: unknown) {
+		return undefined;
+	}
+}
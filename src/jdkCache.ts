@@ -0,0 +1,122 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as fs from 'fs';
+import * as jdkutils from 'jdk-utils';
+import * as path from 'path';
+import type { IDetectedJdk } from './jdkExplorer';
+import * as system from './system';
+import { log } from './system';
+
+/**
+ * An interface for the cache entry of the JDK detection (Key: Home dir).
+ */
+interface ICacheEntry {
+	readonly stamp: string;
+	readonly jdk: IDetectedJdk | null; // null if not JDK (e.g. JRE)
+}
+
+/**
+ * The detection results are saved in a file shared by all windows, same as SettingState.
+ */
+const getStoreFile = () => system.getGlobalStoragePath('.JdkCache.json');
+
+let entries: Record<string, ICacheEntry> | undefined;
+const usedHomeDirs = new Set<string>();
+const validHomeMemo = new Map<string, {stamp: string, isValid: boolean}>();
+
+function load(): Record<string, ICacheEntry> {
+	if (!entries) {
+		try {
+			entries = JSON.parse(system.readString(getStoreFile()) || '{}');
+		} catch (e: unknown) {
+			log.info('JdkCache: load', e); // Silent: Full scan
+		}
+		entries ??= {};
+	}
+	return entries;
+}
+
+/**
+ * @param homeDir The home dir of the JDK.
+ * @returns The modified times of release and bin/javac. undefined if javac does not exist.
+ */
+export function stampOf(homeDir: string): string | undefined {
+	const _stamp = (file: string) => {
+		try {
+			const stat = fs.statSync(file, {throwIfNoEntry: false});
+			// ctime: Changed by extraction even if the archive keeps mtime
+			return stat?.isFile() ? `${stat.mtimeMs}/${stat.ctimeMs}/${stat.size}` : '';
+		} catch (e: unknown) {
+			log.info('Failed statSync:', e); // Silent
+			return '';
+		}
+	};
+	const javacStamp = _stamp(path.join(homeDir, 'bin', jdkutils.JAVAC_FILENAME));
+	return javacStamp ? `${javacStamp}:${_stamp(path.join(homeDir, 'release'))}` : undefined;
+}
+
+/**
+ * @param homeDir The home dir of the JDK.
+ * @param stamp The current stamp. See stampOf().
+ * @returns The cached JDK (null if not JDK). undefined if not cached or changed.
+ */
+export function get(homeDir: string, stamp: string): IDetectedJdk | null | undefined {
+	const entry = load()[homeDir];
+	if (entry?.stamp !== stamp) {
+		return undefined;
+	}
+	usedHomeDirs.add(homeDir);
+	return entry.jdk;
+}
+
+/**
+ * @param homeDir The home dir of the JDK.
+ * @param stamp The current stamp. See stampOf().
+ * @param jdk The detected JDK. null if not JDK.
+ */
+export function set(homeDir: string, stamp: string, jdk: IDetectedJdk | null) {
+	load()[homeDir] = {stamp, jdk};
+	usedHomeDirs.add(homeDir);
+}
+
+/**
+ * Memoizes the validity of the home dir in this process. Re-probed if release or bin/javac is changed.
+ * @param homeDir The home dir of the JDK.
+ * @param stamp The current stamp. See stampOf().
+ * @param probe The function to check the validity.
+ * @returns true if valid JDK dir.
+ */
+export async function memoizeValidHome(homeDir: string, stamp: string, probe: () => Promise<boolean>): Promise<boolean> {
+	const memo = validHomeMemo.get(homeDir);
+	if (memo?.stamp === stamp) {
+		return memo.isValid;
+	}
+	const isValid = await probe();
+	validHomeMemo.set(homeDir, {stamp, isValid});
+	return isValid;
+}
+
+/**
+ * Saves the cache entries used in this process. Entries of removed JDKs are dropped.
+ */
+export function save() {
+	const usedEntries = Object.fromEntries([...usedHomeDirs].map(d => [d, load()[d]]).filter(([, e]) => e));
+	try {
+		const jsonStr = JSON.stringify(usedEntries);
+		if (jsonStr !== system.readString(getStoreFile())) {
+			fs.writeFileSync(getStoreFile(), jsonStr);
+		}
+	} catch (e: unknown) {
+		log.warn('JdkCache: store', e);
+	}
+}
+
+/**
+ * Clears the persistent cache and the memoization for a full rescan.
+ */
+export function clear() {
+	entries = {};
+	usedHomeDirs.clear();
+	validHomeMemo.clear();
+	system.rmSyncQuietly(getStoreFile());
+	log.info('JdkCache: cleared');
+}
@@ -5,10 +5,17 @@ import * as jdkutils from 'jdk-utils';
 import * as os from "os";
 import * as path from 'path';
 import * as jdk from './download/jdk';
+import * as jdkCache from './jdkCache';
 import * as redhat from './redhat';
 import * as settings from './settings';
 import * as system from './system';
 import { OS, log } from './system';
+import * as toolchains from './toolchains';
+export const CONFIG_NAME_JDK_SEARCH_PATHS = 'javaAutoConfig.jdk.searchPaths';
+export const CONFIG_NAME_JDK_EXCLUDE_PATHS = 'javaAutoConfig.jdk.excludePaths';
+export const CONFIG_NAME_JDK_PREFERRED_VENDORS = 'javaAutoConfig.jdk.preferredVendors';
+export const CONFIG_NAME_JDK_PREFER_NATIVE_ARCH = 'javaAutoConfig.jdk.preferNativeArch';
+export const COMMAND_RESCAN = 'javaAutoConfig.rescanJdks';
 
 /**
  * Scan installed JDK on the system and updates the given Java runtimes.
@@ -48,6 +55,14 @@ export async function scan(javaConfig: redhat.IJavaConfig, runtimes: redhat.Java
 			}
 		}
 
+		// Excluded path
+		if (isExcluded(originPath)) {
+			log.info(`Remove excluded path ${originPath}`);
+			runtimes.splice(i, 1); // remove
+			needImmediateUpdate = true;
+			continue;
+		}
+
 		// Invalid path
 		// Don't check mismatches between manually set name and path
 		const fixedPath = await fixPath(originPath);
@@ -106,13 +121,14 @@ export async function scan(javaConfig: redhat.IJavaConfig, runtimes: redhat.Java
 	// Detect Auto-Downloaded JDK (Support when user installation is uninstalled)
 	for (const majorVer of javaConfig.availableVers) { // All versions for old version
 		const downloadDir = jdk.getDownloadDir(javaConfig, majorVer);
-		if (await isValidHome(downloadDir)) {
+		if (!isExcluded(downloadDir) && await isValidHome(downloadDir)) {
 			detectedLatestMap.set(majorVer, {
 				majorVersion: majorVer,
 				// Auto-detected download dir has lowest priority
 				// Manually configured download dir has highest priority
 				fullVersion: '0.0.0',
 				homePath: downloadDir,
+				source: 'Auto-downloaded',
 			});
 		}
 	}
@@ -124,7 +140,7 @@ export async function scan(javaConfig: redhat.IJavaConfig, runtimes: redhat.Java
 			continue;
 		}
 		const latestJdk = detectedLatestMap.get(detectedJdk.majorVersion);
-		if (!latestJdk || isNewerLeft(detectedJdk, latestJdk)) {
+		if (!latestJdk || isPreferredLeft(detectedJdk, latestJdk)) {
 			detectedLatestMap.set(detectedJdk.majorVersion, detectedJdk);
 		}
 	}
@@ -136,19 +152,53 @@ export async function scan(javaConfig: redhat.IJavaConfig, runtimes: redhat.Java
 		if (configRuntime) {
 			// User installed dir
 			if (system.isUserInstalled(configRuntime.path)) {
-				// Update new version
+				// Update new version or preferred vendor/arch
 				const configJdk = await findByPath(configRuntime.path);
-				if (configJdk && isNewerLeft(detectedJdk, configJdk)) {
+				if (configJdk && isPreferredLeft(detectedJdk, configJdk)) {
+					log.info(`Update ${detectedName} ${detectedJdk.fullVersion} (${detectedJdk.source})`);
 					configRuntime.path = detectedJdk.homePath;
 				}
-				// else Keep (Detected is same or older)
+				// else Keep (Detected is same, older or not preferred)
 			}
 			// else Keep (Auto-Download dir)
 		} else {
 			// Add new entry
+			log.info(`Add ${detectedName} ${detectedJdk.fullVersion} (${detectedJdk.source})`);
 			runtimes.push({name: detectedName, path: detectedJdk.homePath});
 		}
 	}
+	jdkCache.save();
+}
+
+/**
+ * Compares the JDKs of the same major version by the preference policy.
+ * PRECEDENCE: Native arch > javaAutoConfig.jdk.preferredVendors order > Newer version > Shorter path
+ * @param leftJdk The left JDK.
+ * @param rightJdk The right JDK.
+ * @returns true if the left JDK is preferred.
+ */
+function isPreferredLeft(leftJdk: IDetectedJdk, rightJdk: IDetectedJdk): boolean {
+	const isPreferNativeArch = settings.getWorkspace<boolean>(CONFIG_NAME_JDK_PREFER_NATIVE_ARCH) ?? true;
+	if (isPreferNativeArch && leftJdk.arch && rightJdk.arch) {
+		const nativeArch = normalizeArch(process.arch);
+		const leftNative = leftJdk.arch === nativeArch;
+		if (leftNative !== (rightJdk.arch === nativeArch)) {
+			return leftNative;
+		}
+	}
+	const preferredVendors = (settings.getWorkspace<string[]>(CONFIG_NAME_JDK_PREFERRED_VENDORS) ?? [])
+		.filter(Boolean).map(v => v.toLowerCase());
+	const _vendorRank = (jdk: IDetectedJdk) => {
+		const vendor = jdk.vendor?.toLowerCase() ?? '';
+		const i = vendor ? preferredVendors.findIndex(v => vendor.includes(v)) : -1;
+		return i === -1 ? preferredVendors.length : i; // Not listed is lowest
+	};
+	const leftRank = _vendorRank(leftJdk);
+	const rightRank = _vendorRank(rightJdk);
+	if (leftRank !== rightRank) {
+		return leftRank < rightRank;
+	}
+	return isNewerLeft(leftJdk, rightJdk);
 }
 
 function isNewerLeft(leftJdk: IDetectedJdk, rightJdk: IDetectedJdk): boolean {
@@ -174,44 +224,129 @@ function isNewerLeft(leftJdk: IDetectedJdk, rightJdk: IDetectedJdk): boolean {
  */
 export async function isValidHome(homeDir?: string): Promise<boolean> {
 	if (!homeDir) {return false;}
-	const utilRuntime = await jdkutils.getRuntime(homeDir, { checkJavac: true });
-	return !!(utilRuntime?.hasJavac);
+	const stamp = jdkCache.stampOf(homeDir);
+	if (!stamp) {return false;} // javac not found
+	return await jdkCache.memoizeValidHome(homeDir, stamp, async () => {
+		const utilRuntime = await jdkutils.getRuntime(homeDir, { checkJavac: true });
+		return !!(utilRuntime?.hasJavac);
+	});
 }
 
 /**
  * @param homeDir The home dir of the JDK.
- * @returns The fixed dir of the JDK. undefined if cannot fix.
+ * @returns The fixed dir of the JDK. undefined if cannot fix or excluded.
  */
 export async function fixPath(homeDir?: string): Promise<string | undefined> {
 	if (!homeDir) {return undefined;}
 	const MAX_UPPER_LEVEL = 2; // e.g. /jdk/bin/java -> /jdk
 	let d = homeDir;
 	for (let i = 0; i <= MAX_UPPER_LEVEL; i++) {
-		if (await isValidHome(d)) {return d;};
+		if (await isValidHome(d)) {return isExcluded(d) ? undefined : d;};
 		d = path.join(d, '..');
 	}
 	if (OS.isMac) {
 		const contentsHome = path.join(homeDir, 'Contents', 'Home');
-		if (await isValidHome(contentsHome)) {return contentsHome;}
+		if (await isValidHome(contentsHome)) {return isExcluded(contentsHome) ? undefined : contentsHome;}
 		const home = path.join(homeDir, 'Home');
-		if (await isValidHome(home)) {return home;}
+		if (await isValidHome(home)) {return isExcluded(home) ? undefined : home;}
 	}
 	return undefined;
 };
 
+/**
+ * @param p The path that may start with ~ (e.g. ~/apps).
+ * @returns The path with the user home directory.
+ */
+function expandHome(p: string): string {
+	return p.replace(/^~(?=$|[/\\])/, os.homedir());
+}
+
+/**
+ * @param homeDir The home dir of the JDK.
+ * @returns true if the dir is equal to or under javaAutoConfig.jdk.excludePaths.
+ */
+export function isExcluded(homeDir: string): boolean {
+	const excludePaths = settings.getWorkspace<string[]>(CONFIG_NAME_JDK_EXCLUDE_PATHS) ?? [];
+	return excludePaths.filter(Boolean).map(expandHome).some(excludePath =>
+		system.equalsPath(excludePath, homeDir) || system.containsPath(path.join(excludePath, path.sep), homeDir));
+}
+
 /**
  * @param homeDir The home dir of the JDK.
  * @returns The IDetectedJdk object of the JDK. undefined if not found.
  */
 export async function findByPath(homeDir: string): Promise<IDetectedJdk | undefined> {
+	const stamp = jdkCache.stampOf(homeDir);
+	if (!stamp) {return undefined;} // javac not found
+	const cachedJdk = jdkCache.get(homeDir, stamp);
+	if (cachedJdk !== undefined) {
+		return cachedJdk ?? undefined;
+	}
 	const utilRuntime = await jdkutils.getRuntime(homeDir, { checkJavac: true, withVersion: true });
-	return createJdk(utilRuntime);
+	const detectedJdk = createJdk(utilRuntime);
+	jdkCache.set(homeDir, stamp, detectedJdk ?? null);
+	return detectedJdk;
 }
 
-interface IDetectedJdk {
+/**
+ * @param majorVer The major version of the JDK.
+ * @returns The preferred detected user installed JDK of the version. undefined if not found.
+ */
+export async function findLatest(majorVer: number): Promise<IDetectedJdk | undefined> {
+	let latestJdk: IDetectedJdk | undefined;
+	for (const detectedJdk of await findAll()) {
+		if (detectedJdk.majorVersion === majorVer && (!latestJdk || isPreferredLeft(detectedJdk, latestJdk))) {
+			latestJdk = detectedJdk;
+		}
+	}
+	return latestJdk;
+}
+
+/**
+ * An interface for the detected JDK.
+ */
+export interface IDetectedJdk extends IReleaseFile {
 	readonly majorVersion: number;
 	readonly fullVersion: string;
 	readonly homePath: string;
+	readonly source?: string; // e.g. asdf, SDKMAN. undefined if not found by scan (findByPath)
+}
+
+/**
+ * An interface for the metadata in the release file of the JDK. undefined if not written.
+ */
+export interface IReleaseFile {
+	readonly vendor?: string; // IMPLEMENTOR (e.g. Eclipse Adoptium, Amazon.com Inc.)
+	readonly arch?: string; // OS_ARCH normalized (e.g. x64, aarch64)
+	readonly runtimeVersion?: string; // JAVA_RUNTIME_VERSION (e.g. 21.0.4+7-LTS)
+	readonly imageType?: 'jdk' | 'jre'; // MODULES contains jdk.compiler or not
+}
+
+/**
+ * @param homeDir The home dir of the JDK.
+ * @returns The metadata in the release file. Empty if the release file does not exist.
+ */
+export function readRelease(homeDir: string): IReleaseFile {
+	const props = system.readProperties(path.join(homeDir, 'release'));
+	if (!props) {
+		return {};
+	}
+	const _value = (key: string) => props[key]?.replace(/^"|"$/g, '') || undefined;
+	const modules = _value('MODULES')?.split(/\s+/);
+	return {
+		vendor: _value('IMPLEMENTOR'),
+		arch: normalizeArch(_value('OS_ARCH')),
+		runtimeVersion: _value('JAVA_RUNTIME_VERSION'),
+		imageType: modules ? (modules.includes('jdk.compiler') ? 'jdk' : 'jre') : undefined,
+	};
+}
+
+function normalizeArch(arch?: string): string | undefined {
+	switch (arch) {
+		case 'x86_64': case 'amd64': return 'x64';
+		case 'arm64': return 'aarch64';
+		default: return arch;
+	}
 }
 
 function createJdk(utilRuntime?: jdkutils.IJavaRuntime): IDetectedJdk | undefined {
@@ -223,26 +358,48 @@ function createJdk(utilRuntime?: jdkutils.IJavaRuntime): IDetectedJdk | undefine
 		return {
 			majorVersion: utilRuntime.version.major,
 			fullVersion: utilRuntime.version.java_version,
-			homePath: utilRuntime.homedir
+			homePath: utilRuntime.homedir,
+			...readRelease(utilRuntime.homedir),
 		};
 	}
 	return undefined;
 }
 
+/**
+ * @param utilRuntime The runtime found by jdk-utils.
+ * @returns The source label of the runtime (e.g. SDKMAN, JAVA_HOME).
+ */
+function sourceOf(utilRuntime: jdkutils.IJavaRuntime): string {
+	return utilRuntime.isFromSDKMAN ? 'SDKMAN'
+		: utilRuntime.isFromJENV ? 'jEnv'
+		: utilRuntime.isFromJabba ? 'jabba'
+		: utilRuntime.isFromASDF ? 'asdf'
+		: utilRuntime.isFromGradle ? 'Gradle'
+		: utilRuntime.isJavaHomeEnv ? 'JAVA_HOME'
+		: utilRuntime.isJdkHomeEnv ? 'JDK_HOME'
+		: utilRuntime.isInPathEnv ? 'PATH'
+		: 'jdk-utils';
+}
+
 class DetectedJdkArray extends Array<IDetectedJdk> {
 
-	pushJdk(logMessage: string, jdk?: IDetectedJdk) {
+	pushJdk(source: string, jdk?: IDetectedJdk) {
 		if (!jdk) {return;} // undefined if JRE
-		this.push(jdk);
-		log.info(`Detected ${logMessage} ${jdk.majorVersion} (${jdk.fullVersion}) ${jdk.homePath}`);
+		if (isExcluded(jdk.homePath)) {
+			log.info(`Excluded ${source} ${jdk.majorVersion} (${jdk.fullVersion}) ${jdk.homePath}`);
+			return;
+		}
+		this.push({...jdk, source});
+		const metadata = [jdk.fullVersion, jdk.vendor, jdk.arch].filter(Boolean).join(' ');
+		log.info(`Detected ${source} ${jdk.majorVersion} (${metadata}) ${jdk.homePath}`);
 	}
 
-	async pushByGlob(logMessage: string, ...globPatterns: string[]) {
+	async pushByGlob(source: string, ...globPatterns: string[]) {
 		const javacExePats = globPatterns.map(p => path.join(p, '*', 'bin', jdkutils.JAVAC_FILENAME));
 		const globOptions = { realpath: true, ignore: '**/current/bin/**' }; // ignore: scoop, homebrew, etc.
 		for (const javacExeFile of (await system.globSearch(javacExePats, globOptions))) {
 			const jdk = await findByPath(path.join(javacExeFile, '..', '..'));
-			this.pushJdk(logMessage, jdk);
+			this.pushJdk(source, jdk);
 		}
 	}
 }
@@ -254,8 +411,11 @@ async function findAll(): Promise<IDetectedJdk[]> {
 		async () => {
 			// jdk-utils: Gradle Toolchains support pull requested
 			// Resolved) https://github.com/Eskibear/node-jdk-utils/issues/9
-			const utilRuntimes = await jdkutils.findRuntimes({ checkJavac: true, withVersion: true });
-			utilRuntimes.map(createJdk).forEach(jdk => jdks.pushJdk('jdk-utils', jdk));
+			// Version is read by findByPath for cache (jdk-utils withVersion reads all runtimes)
+			const utilRuntimes = await jdkutils.findRuntimes({ checkJavac: true });
+			for (const utilRuntime of utilRuntimes.filter(r => r.hasJavac)) {
+				jdks.pushJdk(sourceOf(utilRuntime), await findByPath(utilRuntime.homedir));
+			}
 		},
 		async () => {
 			// Windows distributors not supported by jdk-utils
@@ -286,6 +446,49 @@ async function findAll(): Promise<IDetectedJdk[]> {
 			if (OS.isMac) {pattern += '/*/Contents';}
 			await jdks.pushByGlob('mise', pattern);
 		},
+		async () => {
+			// asdf (Linux, Mac)
+			// e.g. ~/.asdf/installs/java/temurin-21.0.2+13.0.LTS/bin
+			if (OS.isWindows) {return;}
+			const installDir = path.join(env.ASDF_DATA_DIR ?? path.join(os.homedir(), '.asdf'), 'installs', 'java');
+			await jdks.pushByGlob('asdf', installDir, ...(OS.isMac ? [installDir + '/*/Contents'] : []));
+		},
+		async () => {
+			// jabba (Multi-Platform)
+			// e.g. ~/.jabba/jdk/openjdk@1.17.0/bin
+			// e.g. Mac ~/.jabba/jdk/openjdk@1.17.0/Contents/Home/bin
+			const jdkDir = path.join(env.JABBA_HOME ?? path.join(os.homedir(), '.jabba'), 'jdk');
+			await jdks.pushByGlob('jabba', jdkDir, ...(OS.isMac ? [jdkDir + '/*/Contents'] : []));
+		},
+		async () => {
+			// jEnv (Linux, Mac): Symbolic links to JDK home (Resolved by glob realpath)
+			// e.g. ~/.jenv/versions/openjdk64-17.0.2 -> /usr/lib/jvm/java-17-openjdk-amd64
+			if (OS.isWindows) {return;}
+			await jdks.pushByGlob('jEnv', path.join(env.JENV_ROOT ?? path.join(os.homedir(), '.jenv'), 'versions'));
+		},
+		async () => {
+			// Nix (Linux, Mac): JDK home is lib/openjdk in the profile (Keep profile path for upgrades)
+			// e.g. ~/.nix-profile/lib/openjdk, /run/current-system/sw/lib/openjdk (NixOS)
+			if (OS.isWindows) {return;}
+			const profileDirs = [
+				path.join(os.homedir(), '.nix-profile'),
+				path.join('/etc/profiles/per-user', env.USER ?? ''), // home-manager
+				'/nix/var/nix/profiles/default',
+				'/run/current-system/sw',
+			];
+			for (const profileDir of profileDirs) {
+				const homeDir = path.join(profileDir, 'lib', 'openjdk');
+				if (system.existsDirectory(homeDir)) {
+					jdks.pushJdk('Nix', await findByPath(homeDir));
+				}
+			}
+		},
+		async () => {
+			// Linux alternatives (Debian, Fedora, etc.)
+			// e.g. /usr/lib/jvm/java-21-openjdk-amd64/bin, /usr/lib/jvm/java-21-openjdk/bin
+			if (!OS.isLinux) {return;}
+			await jdks.pushByGlob('Linux', '/usr/lib/jvm');
+		},
 		async () => {
 			// vfox (Multi-Platform)
 			// e.g. C:\Users\<UserName>\.version-fox\cache\java\v-22+36\java-22+36\bin
@@ -294,7 +497,7 @@ async function findAll(): Promise<IDetectedJdk[]> {
 		async () => {
 			// Maven Toolchains
 			// https://maven.apache.org/guides/mini/guide-using-toolchains.html
-			const xml = system.readString(path.join(os.homedir(), '.m2', 'toolchains.xml')) || '';
+			const xml = system.readString(toolchains.getMavenToolchainsFile()) || '';
 			for (const match of xml.matchAll(/<jdkHome>([^<].+)<\/jdkHome>/g)) {
 				const jdk = await findByPath(match[1].trim());
 				jdks.pushJdk('Maven', jdk);
@@ -320,6 +523,14 @@ async function findAll(): Promise<IDetectedJdk[]> {
 				await jdks.pushByGlob('Pleiades', '/Applications/Eclipse_20*.app/Contents/java');
 			}
 		},
+		async () => {
+			// User settings (e.g. /opt/tools/jdk, ~/apps)
+			const searchPaths = settings.getWorkspace<string[]>(CONFIG_NAME_JDK_SEARCH_PATHS) ?? [];
+			const patterns = searchPaths.filter(Boolean).map(expandHome);
+			if (patterns.length > 0) {
+				await jdks.pushByGlob('Settings', ...patterns);
+			}
+		},
 		async () => {
 			// Common (Windows)
 			// e.g. C:\Java\jdk21.0.2\bin
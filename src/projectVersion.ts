@@ -0,0 +1,181 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as _ from "lodash";
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as redhat from './redhat';
+import * as settings from './settings';
+import * as system from './system';
+import { log } from './system';
+
+/**
+ * An interface for the Java version required by the project.
+ */
+export interface IProjectVersion {
+	readonly majorVersion: number;
+	readonly file: string;
+}
+
+/**
+ * The detectors of each file in order of precedence.
+ * Version manager files select the runtime explicitly, so they take precedence over build files.
+ */
+const detectors: ReadonlyArray<[string, (text: string, file: string) => string | undefined]> = [
+	// jenv, jabba, etc. (e.g. 21, 17.0.2, temurin-21.0.2)
+	['.java-version', text => text.trim().split(/\s+/)[0]],
+	// SDKMAN! (e.g. java=21.0.2-tem)
+	['.sdkmanrc', (text, file) => system.readProperties(file)?.java],
+	// asdf, mise (e.g. java temurin-21.0.2+13.0.LTS)
+	['.tool-versions', text => text.match(/^\s*java\s+(\S+)/m)?.[1]],
+	// Maven (e.g. <maven.compiler.release>21</maven.compiler.release>)
+	['pom.xml', text => {
+		const _prop = (name: string) => findPomProperty(text, name);
+		const value = _prop('maven.compiler.release') ?? _prop('maven.compiler.target') ?? _prop('maven.compiler.source');
+		return value && resolvePomProperty(text, value);
+	}],
+	// Gradle (e.g. java.toolchain.languageVersion = JavaLanguageVersion.of(21))
+	['build.gradle.kts', text => text.match(/JavaLanguageVersion\.of\(\s*["']?(\d+)/)?.[1]],
+	['build.gradle', text => text.match(/JavaLanguageVersion\.of\(\s*["']?(\d+)/)?.[1]],
+];
+
+/**
+ * @param pomText The content of pom.xml.
+ * @param name The property element name (e.g. maven.compiler.release).
+ * @returns The trimmed element value. undefined if not found.
+ */
+function findPomProperty(pomText: string, name: string): string | undefined {
+	return pomText.match(new RegExp(`<${_.escapeRegExp(name)}>\\s*([^<]+?)\\s*</`))?.[1];
+}
+
+/**
+ * @param pomText The content of pom.xml.
+ * @param value The property value that may reference other property (e.g. ${java.version}).
+ * @returns The resolved value. The value as is if not a reference or not found.
+ */
+function resolvePomProperty(pomText: string, value: string): string {
+	return value.replace(/^\$\{([\w.-]+)\}$/, (m, name: string) => findPomProperty(pomText, name) ?? m);
+}
+
+/**
+ * An interface for the Java version declared in the build file.
+ */
+export interface IVersionDeclaration {
+	readonly majorVersion: number;
+	readonly offset: number;
+	readonly length: number;
+}
+
+/**
+ * The build file names to declare the Java version.
+ */
+export const BUILD_FILE_NAMES = ['pom.xml', 'build.gradle', 'build.gradle.kts'];
+
+/**
+ * Finds the Java versions declared in the build file (Maven compiler properties, Gradle toolchain).
+ * @param fileName The build file name. See BUILD_FILE_NAMES.
+ * @param text The content of the build file.
+ * @returns The declarations with the offset of the version value. Empty array if not declared.
+ */
+export function findDeclarations(fileName: string, text: string): IVersionDeclaration[] {
+	const pattern = fileName === 'pom.xml'
+		? /<maven\.compiler\.(?:release|target|source)>\s*([^<]+?)\s*<\//g
+		: /JavaLanguageVersion\.of\(\s*["']?(\d+)/g;
+	return [...text.matchAll(pattern)].flatMap(matched => {
+		const majorVer = toMajorVersion(resolvePomProperty(text, matched[1]));
+		if (!majorVer) {
+			return [];
+		}
+		const offset = (matched.index ?? 0) + matched[0].lastIndexOf(matched[1]);
+		return [{majorVersion: majorVer, offset, length: matched[1].length}];
+	});
+}
+
+/**
+ * @param version The version string (e.g. 1.8, 8u402, 21.0.2-tem, temurin-21.0.2, openjdk64-17.0.2).
+ * @returns The Java major version. undefined if not a version (e.g. system, ${java.version}).
+ */
+export function toMajorVersion(version: string): number | undefined {
+	const matched = version.match(/(?:^|-)(?:1\.)?(\d+)(?=[.+_u-]|$)/);
+	const majorVer = Number(matched?.[1]);
+	return majorVer >= 5 ? majorVer : undefined;
+}
+
+/**
+ * Detects the Java version required by the workspace folder from the build and version manager files.
+ * @param folder The workspace folder.
+ * @returns The required Java version. undefined if not declared.
+ */
+export function detect(folder: vscode.WorkspaceFolder): IProjectVersion | undefined {
+	for (const [fileName, detector] of detectors) {
+		const file = path.join(folder.uri.fsPath, fileName);
+		const text = system.readString(file);
+		if (text === undefined) {
+			continue;
+		}
+		const version = detector(text, file);
+		const majorVer = version ? toMajorVersion(version) : undefined;
+		if (majorVer) {
+			return {majorVersion: majorVer, file};
+		}
+		log.info(`Unknown Java version [${version}]`, file);
+	}
+	return undefined;
+}
+
+/**
+ * @returns The Java major versions required by the workspace folders in ascending order.
+ */
+export function getRequiredVersions(): number[] {
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	const vers = folders.flatMap(folder => detect(folder)?.majorVersion ?? []);
+	return _.uniq(vers).sort((a, b) => a - b);
+}
+
+/**
+ * Sets the workspace java.configuration.runtimes to the single default runtime of the required Java version,
+ * if the workspace folders declare it and it differs from the user default.
+ * The newest is used if the workspace folders require multiple versions.
+ * Note: The path is machine-specific, so .vscode/settings.json should not be shared in the repository.
+ * @param runtimes The Java runtimes of the user settings.
+ * @returns A promise that resolves when the configuration is updated.
+ */
+export async function updateWorkspaceDefault(runtimes: redhat.JavaConfigRuntimes) {
+	if (!settings.isUserTarget()) {
+		return; // The runtimes are written to the configuration target directly with its own default
+	}
+	const requiredVer = getRequiredVersions().at(-1);
+	const defaultRuntime = runtimes.findByVersion(requiredVer);
+	if (!defaultRuntime) {
+		if (requiredVer) {
+			log.info(`Not found project Java ${requiredVer} in ${redhat.JavaConfigRuntimes.CONFIG_NAME}`);
+		}
+		return;
+	}
+	// Only the required runtime: Other absolute paths are not written to the project
+	const newRuntimes = [{name: defaultRuntime.name, path: defaultRuntime.path, default: true}];
+	const info = vscode.workspace.getConfiguration().inspect(redhat.JavaConfigRuntimes.CONFIG_NAME);
+	if (defaultRuntime === runtimes.findDefault()) {
+		// Same as the user default: Remove only the entry written before (machine-specific path in the project)
+		if (_.isEqual(newRuntimes, info?.workspaceValue)) {
+			await settings.updateWorkspace(redhat.JavaConfigRuntimes.CONFIG_NAME, undefined);
+		}
+		return;
+	}
+	if (!_.isEqual(newRuntimes, info?.workspaceValue)) {
+		await settings.updateWorkspace(redhat.JavaConfigRuntimes.CONFIG_NAME, newRuntimes);
+	}
+}
+
+/**
+ * Finds the Java runtime for the terminal JAVA_HOME of the workspace folder.
+ * PRECEDENCE: Folder settings default > Required project version > Workspace settings default
+ * @param folder The workspace folder.
+ * @returns The Java runtime. undefined if the folder uses the user default.
+ */
+export function findFolderRuntime(folder: vscode.WorkspaceFolder): redhat.IJavaConfigRuntime | undefined {
+	const info = vscode.workspace.getConfiguration(undefined, folder).inspect<redhat.IJavaConfigRuntime[]>(
+		redhat.JavaConfigRuntimes.CONFIG_NAME);
+	const _findDefault = (runtimes?: redhat.IJavaConfigRuntime[]) => runtimes?.find(r => r.default);
+	return _findDefault(info?.workspaceFolderValue)
+		?? settings.getJavaConfigRuntimes().findByVersion(detect(folder)?.majorVersion)
+		?? _findDefault(info?.workspaceValue);
+}
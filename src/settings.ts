@@ -8,14 +8,47 @@ import * as gradle from './download/gradle';
 import * as jdk from './download/jdk';
 import * as maven from './download/maven';
 import * as jdkExplorer from './jdkExplorer';
+import * as projectVersion from './projectVersion';
 import * as redhat from './redhat';
 import { SettingState } from './SettingState';
 import * as system from './system';
 import { OS, log } from './system';
+import * as toolchains from './toolchains';
 export const AUTO_CONFIG_ENABLED = 'javaAutoConfig.enabled';
+export const CONFIG_NAME_CONFIGURATION_TARGET = 'javaAutoConfig.configurationTarget';
 
 /**
- * Return a value from user/remote settings.json or default configuration.
+ * An interface for the settings scope that the auto-configuration reads and writes.
+ */
+interface ITarget {
+	readonly target: vscode.ConfigurationTarget;
+	readonly folder?: vscode.WorkspaceFolder; // The first workspace folder for WorkspaceFolder target
+}
+
+/**
+ * @returns The configuration target by javaAutoConfig.configurationTarget. Global if no workspace is opened.
+ */
+function getTarget(): ITarget {
+	const name = getWorkspace<string>(CONFIG_NAME_CONFIGURATION_TARGET);
+	const folder = vscode.workspace.workspaceFolders?.[0];
+	if (folder && name === 'workspaceFolder') {
+		return {target: vscode.ConfigurationTarget.WorkspaceFolder, folder};
+	} else if (folder && name === 'workspace') {
+		return {target: vscode.ConfigurationTarget.Workspace};
+	}
+	return {target: vscode.ConfigurationTarget.Global};
+}
+
+/**
+ * @returns true if the auto-configuration writes to user/remote settings.json.
+ */
+export function isUserTarget(): boolean {
+	return getTarget().target === vscode.ConfigurationTarget.Global;
+}
+
+/**
+ * Return a value from the configuration target (user/remote settings.json by default) or default configuration.
+ * If the target is workspace or workspace folder, the values of the lower scopes are inherited.
  * @param section Configuration name, supports _dotted_ names.
  * @returns The value `section` denotes or `undefined`. null is a valid value.
  */
@@ -23,40 +56,94 @@ export function getUserOrDefault<T>(section: string): T | undefined {
 	// Pending: ${userHome}
 	// Issue: Support variables when resolving values in settings
 	// Open) https://github.com/microsoft/vscode/issues/2809#new_comment_form
-	const info = vscode.workspace.getConfiguration().inspect(section);
-	return (info?.globalValue ?? info?.defaultValue) as T;
+	const {target, folder} = getTarget();
+	const info = vscode.workspace.getConfiguration(undefined, folder).inspect(section);
+	const folderValue = target === vscode.ConfigurationTarget.WorkspaceFolder ? info?.workspaceFolderValue : undefined;
+	const workspaceValue = target !== vscode.ConfigurationTarget.Global ? info?.workspaceValue : undefined;
+	return (folderValue ?? workspaceValue ?? info?.globalValue ?? info?.defaultValue) as T;
 }
 
 /**
- * Return a value from user/remote settings.json.
+ * Return a value from the configuration target (user/remote settings.json by default).
  * @param section Configuration name, supports _dotted_ names.
  * @returns The value `section` denotes or `undefined`. null is a valid value.
  */
 export function getUserDefine<T>(section: string): T | undefined {
-	const info = vscode.workspace.getConfiguration().inspect(section);
-	return info?.globalValue as T;
+	const {target, folder} = getTarget();
+	const info = vscode.workspace.getConfiguration(undefined, folder).inspect(section);
+	switch (target) {
+		case vscode.ConfigurationTarget.WorkspaceFolder: return info?.workspaceFolderValue as T;
+		case vscode.ConfigurationTarget.Workspace: return info?.workspaceValue as T;
+		default: return info?.globalValue as T;
+	}
 }
 
 /**
  * Return a value from workspace configuration.
  * @param section Configuration name, supports _dotted_ names.
+ * @param folder The workspace folder to resolve the folder settings. undefined for the workspace.
+ * @returns The value `section` denotes or `undefined`. null is a valid value.
+ */
+export function getWorkspace<T>(section: string, folder?: vscode.WorkspaceFolder): T | undefined {
+	return vscode.workspace.getConfiguration(undefined, folder).get(section);
+}
+
+/**
+ * Return a value from workspace folder .vscode/settings.json.
+ * @param section Configuration name, supports _dotted_ names.
+ * @param folder The workspace folder.
  * @returns The value `section` denotes or `undefined`. null is a valid value.
  */
-export function getWorkspace<T>(section: string): T | undefined {
-	return vscode.workspace.getConfiguration().get(section);
+export function getWorkspaceFolderDefine<T>(section: string, folder: vscode.WorkspaceFolder): T | undefined {
+	const info = vscode.workspace.getConfiguration(undefined, folder).inspect(section);
+	return info?.workspaceFolderValue as T;
 }
 
 /**
- * Updates a VS Code user/remote settings entry.
+ * Updates a VS Code settings entry of the configuration target (user/remote settings.json by default).
  * @param section Configuration name, supports _dotted_ names.
  * @param value The new value. Remove configuration entry when passed `undefined`.
  * @returns A promise that resolves when the configuration is updated.
  */
 export async function update(section: string, value: any) {
-	const config = vscode.workspace.getConfiguration();
+	const {target, folder} = getTarget();
+	const config = vscode.workspace.getConfiguration(undefined, folder);
 	value = Array.isArray(value) && value.length === 0 ? undefined : value;
 	log.info(`${value ? 'Update' : 'Remove'} Settings:`, section, _.isObject(value) ? '' : value);
-	return await config.update(section, value, vscode.ConfigurationTarget.Global);
+	if (target === vscode.ConfigurationTarget.Global) {
+		return await config.update(section, value, target);
+	}
+	try {
+		return await config.update(section, value, target);
+	} catch (e: unknown) {
+		// e.g. Application scope settings cannot be written to the workspace (Do not fall back to user settings)
+		log.info(`Failed update ${section} (${CONFIG_NAME_CONFIGURATION_TARGET}):`, e); // Silent
+	}
+}
+
+/**
+ * Updates a VS Code workspace settings entry (.vscode/settings.json or .code-workspace).
+ * @param section Configuration name, supports _dotted_ names.
+ * @param value The new value. Remove configuration entry when passed `undefined`.
+ * @returns A promise that resolves when the configuration is updated.
+ */
+export async function updateWorkspace(section: string, value: any) {
+	const config = vscode.workspace.getConfiguration();
+	log.info(`${value ? 'Update' : 'Remove'} Workspace Settings:`, section, _.isObject(value) ? '' : value);
+	return await config.update(section, value, vscode.ConfigurationTarget.Workspace);
+}
+
+/**
+ * Updates a VS Code workspace folder .vscode/settings.json entry.
+ * @param section Configuration name, supports _dotted_ names.
+ * @param value The new value. Remove configuration entry when passed `undefined`.
+ * @param folder The workspace folder.
+ * @returns A promise that resolves when the configuration is updated.
+ */
+export async function updateWorkspaceFolder(section: string, value: any, folder: vscode.WorkspaceFolder) {
+	const config = vscode.workspace.getConfiguration(undefined, folder);
+	log.info(`${value ? 'Update' : 'Remove'} Folder Settings:`, folder.name, section, _.isObject(value) ? '' : value);
+	return await config.update(section, value, vscode.ConfigurationTarget.WorkspaceFolder);
 }
 
 /**
@@ -69,7 +156,7 @@ export async function remove(section: string) {
 }
 
 /**
- * Gets the Java runtime configurations for the VS Code Java extension.
+ * Gets the Java runtime configurations for the VS Code Java extension from the configuration target.
  * @returns An array of Java runtime objects. If no entry exists, returns an empty array.
  */
 export function getJavaConfigRuntimes(): redhat.JavaConfigRuntimes {
@@ -154,6 +241,12 @@ export async function updateJavaRuntimes(
 	if (!_.isEqual(runtimes, runtimesOld)) {
 		update(redhat.JavaConfigRuntimes.CONFIG_NAME, runtimes);
 	}
+	if (isUserTarget()) {
+		// The user home files are shared by all workspaces, so not written from the workspace runtimes
+		toolchains.updateMaven(runtimes); // Write only if changed
+		toolchains.updateGradle(runtimes);
+	}
+	await projectVersion.updateWorkspaceDefault(runtimes);
 
 	async function _fixJavaHome(currentJavaHome: string, defaultRuntime: redhat.IJavaConfigRuntime): Promise<string> {
 		if (profileRuntimeToApply?.path) {
@@ -211,10 +304,12 @@ export async function updateJavaRuntimes(
 		} else if (OS.isMac) {
 			profile.path = 'zsh';
 			profile.env.ZDOTDIR = rcfileDir;
+			profile.env.AUTO_CONFIG_JAVA_PROFILE = 'true'; // Ignore JAVA_HOME by workspace folder in rcfile
 		} else { // Linux
 			profile.path = 'bash';
 			profile.args = ['--rcfile', path.join(rcfileDir, '.bashrc')];
 			// Do not use --login because disables --rcfile
+			profile.env.AUTO_CONFIG_JAVA_PROFILE = 'true'; // Ignore JAVA_HOME by workspace folder in rcfile
 		}
 		profile.env.JAVA_HOME = runtime.path;
 	}
@@ -384,12 +479,13 @@ export async function updateJavaRuntimes(
 	// Gradle Daemon Java Home (Keep if set): Output > Gradle for Java > Java Home
 	// Gradle 8.5+ can execute on latest Java versions
 	// Resolved) https://github.com/gradle/gradle/issues/26944#issuecomment-1794419074
+	// PRECEDENCE: Workspace compatible with Gradle Wrapper > Latest LTS (Single awaited write to avoid race)
+	const isWrapperJavaHome = await gradle.updateWrapperJavaHome(runtimes);
 	const gradleJavaRuntime = latestLtsRuntime || stableLtsRuntime;
-	if (gradleJavaRuntime && gradle.hasExtension()) {
-		const CONFIG_NAME_GRADLE_JAVA_HOME = 'java.import.gradle.java.home';
-		const originPath = getUserOrDefault<string>(CONFIG_NAME_GRADLE_JAVA_HOME);
-		function _updateGradleJavaHome(newPath: string) {
-			update(CONFIG_NAME_GRADLE_JAVA_HOME, newPath);
+	if (gradleJavaRuntime && gradle.hasExtension() && !isWrapperJavaHome) {
+		const originPath = getUserOrDefault<string>(gradle.CONFIG_NAME_GRADLE_JAVA_HOME);
+		async function _updateGradleJavaHome(newPath: string) {
+			await update(gradle.CONFIG_NAME_GRADLE_JAVA_HOME, newPath);
 			/* Comment Out: Gradle extension shows reload dialog
 			if (!profileRuntimeToApply) {
 				javaConfig.needsReload = true;
@@ -400,12 +496,12 @@ export async function updateJavaRuntimes(
 		if (originPath) {
 			const fixedOrDefault = await _fixJavaHome(originPath, gradleJavaRuntime);
 			if (fixedOrDefault !== originPath) {
-				_updateGradleJavaHome(fixedOrDefault);
+				await _updateGradleJavaHome(fixedOrDefault);
 			}
 		} else { // If unset use default
-			_updateGradleJavaHome(gradleJavaRuntime.path);
+			await _updateGradleJavaHome(gradleJavaRuntime.path);
 		}
-		// Pending: org.gradle.java.installations.paths
+		// Note: org.gradle.java.installations.paths is written to gradle.properties (toolchains.ts)
 		// Open) https://github.com/redhat-developer/vscode-java/issues/2804
 		// Open) https://github.com/microsoft/vscode-gradle/issues/1330
 	}
@@ -476,6 +572,9 @@ function setIfUndefined(section: string, value: any, extensionId?: string) {
 	if (extensionId && !vscode.extensions.getExtension(extensionId)) {
 		return;
 	}
+	if (!isUserTarget()) {
+		return; // Editor and other preferences are not shared to the workspace
+	}
 	if (value !== undefined && getUserDefine(section) === undefined) {
 		update(section, value);
 	}
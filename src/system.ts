@@ -75,6 +75,19 @@ export function isUserInstalled(checkPath: string): boolean {
 	return !containsPath(getGlobalStoragePath(), checkPath);
 }
 
+/**
+ * The distribution name recorded in distribution.txt of the home dir installed from the local archive file.
+ */
+export const LOCAL_DISTRIBUTION = 'local';
+
+/**
+ * @param homeDir The home dir of the JDK, Maven or Gradle.
+ * @returns true if installed from the local archive file. Not replaced by the update check same as user installed.
+ */
+export function isArchiveInstalled(homeDir: string): boolean {
+	return readString(path.join(homeDir, 'distribution.txt')) === LOCAL_DISTRIBUTION;
+}
+
 /**
  * @param basePath The base path.
  * @param paths The paths to join.
@@ -152,6 +165,26 @@ export function readString(file: string): string | undefined {
 	return existsFile(file) ? fs.readFileSync(file).toString() : undefined;
 }
 
+/**
+ * Reads the Java properties file (e.g. gradle-wrapper.properties). Multi-line values are not supported.
+ * @param file The file path.
+ * @returns The properties with unescaped values (e.g. https\:// -> https://). undefined if not exists.
+ */
+export function readProperties(file: string): Record<string, string> | undefined {
+	const text = readString(file);
+	if (text === undefined) {
+		return undefined;
+	}
+	const props: Record<string, string> = {};
+	for (const line of text.split(/\r?\n/)) {
+		const matched = line.match(/^\s*([^#!\s][^=:\s]*)\s*[=:\s]\s*(.*?)\s*$/);
+		if (matched) {
+			props[matched[1]] = matched[2].replace(/\\(.)/g, '$1');
+		}
+	}
+	return props;
+}
+
 /**
  * @param p The path.
  * @returns The file modified date as string.
@@ -0,0 +1,151 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as fs from 'fs';
+import * as _ from "lodash";
+import * as os from 'os';
+import * as path from 'path';
+import * as gradle from './download/gradle';
+import * as maven from './download/maven';
+import * as jdkExplorer from './jdkExplorer';
+import * as redhat from './redhat';
+import * as settings from './settings';
+import * as system from './system';
+import { log } from './system';
+export const CONFIG_NAME_MAVEN_TOOLCHAINS = 'javaAutoConfig.maven.toolchains';
+export const CONFIG_NAME_GRADLE_TOOLCHAINS = 'javaAutoConfig.gradle.toolchains';
+export const CONFIG_NAME_GRADLE_TOOLCHAINS_AUTO_DETECT = 'javaAutoConfig.gradle.toolchainsAutoDetect';
+
+const MARKER_BEGIN_TEXT = 'BEGIN javaAutoConfig: Managed entries, do not edit';
+const MARKER_END_TEXT = 'END javaAutoConfig';
+
+/**
+ * @returns The path of the Maven toolchains.xml.
+ */
+export function getMavenToolchainsFile(): string {
+	return path.join(os.homedir(), '.m2', 'toolchains.xml');
+}
+
+/**
+ * Updates the managed entries of ~/.m2/toolchains.xml from the Java runtimes.
+ * Entries written by the user (outside the managed markers) are preserved.
+ * https://maven.apache.org/guides/mini/guide-using-toolchains.html
+ * @param runtimes The Java runtimes.
+ */
+export function updateMaven(runtimes: redhat.JavaConfigRuntimes) {
+	if (!maven.hasExtension()) {
+		return;
+	}
+	const xmlFile = getMavenToolchainsFile();
+	const xmlOld = system.readString(xmlFile);
+	const isEnabled = settings.getWorkspace<boolean>(CONFIG_NAME_MAVEN_TOOLCHAINS) ?? true;
+	if (!xmlOld && (!isEnabled || runtimes.length === 0)) {
+		return;
+	}
+	const xmlBase = removeManagedBlock(xmlOld ?? EMPTY_TOOLCHAINS_XML, '<!--', '-->');
+	const closeTagIndex = xmlBase.lastIndexOf('</toolchains>');
+	if (closeTagIndex === -1) {
+		log.warn('Skip update invalid toolchains.xml', xmlFile);
+		return;
+	}
+	const entries = isEnabled ? runtimes.map(toToolchainXml).join('') : '';
+	const block = entries ? `  <!-- ${MARKER_BEGIN_TEXT} -->\n${entries}  <!-- ${MARKER_END_TEXT} -->\n` : '';
+	const xmlNew = xmlBase.slice(0, closeTagIndex) + block + xmlBase.slice(closeTagIndex);
+	writeIfChanged(xmlFile, xmlOld, xmlNew);
+}
+
+/**
+ * Updates the managed entries of ~/.gradle/gradle.properties from the Java runtimes,
+ * so that Gradle toolchains resolve the detected and downloaded JDKs instead of auto-provisioning.
+ * Properties defined by the user (outside the managed markers) take precedence and are not written.
+ * https://docs.gradle.org/current/userguide/toolchains.html#sec:custom_loc
+ * @param runtimes The Java runtimes.
+ */
+export function updateGradle(runtimes: redhat.JavaConfigRuntimes) {
+	if (!gradle.hasExtension()) {
+		return;
+	}
+	const propsFile = path.join(gradle.getUserHome(), 'gradle.properties');
+	const propsOld = system.readString(propsFile);
+	const isEnabled = settings.getWorkspace<boolean>(CONFIG_NAME_GRADLE_TOOLCHAINS) ?? true;
+	if (!propsOld && (!isEnabled || runtimes.length === 0)) {
+		return;
+	}
+	const propsBase = removeManagedBlock(propsOld ?? '', '#', '');
+	const _isUserDefined = (key: string) => new RegExp(`^\\s*${_.escapeRegExp(key)}\\s*[=:]`, 'm').test(propsBase);
+	const lines: string[] = [];
+	if (isEnabled) {
+		const PATHS_KEY = 'org.gradle.java.installations.paths';
+		const AUTO_DETECT_KEY = 'org.gradle.java.installations.auto-detect';
+		if (runtimes.length > 0 && !_isUserDefined(PATHS_KEY)) {
+			const paths = runtimes.map(r => r.path.replace(/\\/g, '\\\\')); // Escape Windows path
+			lines.push(`${PATHS_KEY}=${paths.join(',')}`);
+		}
+		const isAutoDetect = settings.getWorkspace<boolean>(CONFIG_NAME_GRADLE_TOOLCHAINS_AUTO_DETECT) ?? true;
+		if (!isAutoDetect && !_isUserDefined(AUTO_DETECT_KEY)) {
+			lines.push(`${AUTO_DETECT_KEY}=false`);
+		}
+	}
+	const block = lines.length > 0 ? `# ${MARKER_BEGIN_TEXT}\n${lines.join('\n')}\n# ${MARKER_END_TEXT}\n` : '';
+	const separator = propsBase && !propsBase.endsWith('\n') ? '\n' : '';
+	writeIfChanged(propsFile, propsOld, propsBase + separator + block);
+}
+
+function writeIfChanged(file: string, textOld: string | undefined, textNew: string) {
+	if (textNew === (textOld ?? '')) {
+		return;
+	}
+	try {
+		system.mkdirSyncQuietly(path.dirname(file));
+		fs.writeFileSync(file, textNew);
+		log.info('Update toolchains', file);
+	} catch (e: unknown) {
+		log.warn('Failed update toolchains', file, e);
+	}
+}
+
+const EMPTY_TOOLCHAINS_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<toolchains xmlns="http://maven.apache.org/TOOLCHAINS/1.1.0"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://maven.apache.org/TOOLCHAINS/1.1.0 https://maven.apache.org/xsd/toolchains-1.1.0.xsd">
+</toolchains>
+`;
+
+/**
+ * Removes the managed block lines between the begin and end markers.
+ * @param text The file content.
+ * @param commentStart The comment start of the file format (e.g. '<!--', '#').
+ * @param commentEnd The comment end of the file format. Empty if line comment.
+ * @returns The content without the managed block.
+ */
+function removeManagedBlock(text: string, commentStart: string, commentEnd: string): string {
+	const begin = text.indexOf(`${commentStart} ${MARKER_BEGIN_TEXT}`);
+	const end = text.indexOf(`${commentStart} ${MARKER_END_TEXT}${commentEnd ? ' ' + commentEnd : ''}`, begin);
+	if (begin === -1 || end === -1) {
+		return text;
+	}
+	const lineBegin = text.lastIndexOf('\n', begin) + 1;
+	const lineEnd = text.indexOf('\n', end);
+	return text.slice(0, lineBegin) + (lineEnd === -1 ? '' : text.slice(lineEnd + 1));
+}
+
+function toToolchainXml(runtime: redhat.IJavaConfigRuntime): string {
+	const majorVer = redhat.versionOf(runtime.name);
+	const version = majorVer <= 8 ? `1.${majorVer}` : String(majorVer); // e.g. <version>1.8</version>
+	const vendor = jdkExplorer.readRelease(runtime.path).vendor;
+	return [
+		'  <toolchain>',
+		'    <type>jdk</type>',
+		'    <provides>',
+		`      <version>${version}</version>`,
+		...(vendor ? [`      <vendor>${escapeXml(vendor)}</vendor>`] : []),
+		'    </provides>',
+		'    <configuration>',
+		`      <jdkHome>${escapeXml(runtime.path)}</jdkHome>`,
+		'    </configuration>',
+		'  </toolchain>',
+		'',
+	].join('\n');
+}
+
+function escapeXml(s: string): string {
+	return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,105 @@
+/*! VS Code Extension (c) 2023 Shinji Kashihara (cypher256) @ WILL */
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import * as settings from './settings';
+import * as system from './system';
+import { log } from './system';
+export const CONFIG_NAME_UPDATE_CHECK_INTERVAL = 'javaAutoConfig.download.updateCheckInterval';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TIMER_MS = 60 * 60 * 1000; // Check due every hour
+
+const INTERVAL_MS: Record<string, number> = {
+	startup: 0,
+	daily: DAY_MS,
+	weekly: 7 * DAY_MS,
+};
+
+/**
+ * @returns The update check interval in milliseconds. 0 if checked on every startup.
+ */
+function getIntervalMs(): number {
+	const interval = settings.getWorkspace<string>(CONFIG_NAME_UPDATE_CHECK_INTERVAL) ?? 'daily';
+	return INTERVAL_MS[interval] ?? DAY_MS;
+}
+
+/**
+ * The last checked time is saved in a file shared by all windows, same as SettingState.
+ */
+const getStoreFile = () => system.getGlobalStoragePath('.UpdateCheck.json');
+
+function getLastCheckedTime(): number {
+	try {
+		return JSON.parse(system.readString(getStoreFile()) || '{}').lastChecked ?? 0;
+	} catch (e: unknown) {
+		log.info('UpdateCheck: load', e); // Silent: Check now
+		return 0;
+	}
+}
+
+/**
+ * @returns true if the interval has elapsed since the last update check.
+ */
+export function isDue(): boolean {
+	return Date.now() - getLastCheckedTime() >= getIntervalMs();
+}
+
+let hasFailure = false;
+
+/**
+ * Starts the update check if it is due. The last checked time is recorded by finish() only if succeeded,
+ * so an offline or failed check is retried on the next startup or timer.
+ * @returns true if the update check should be performed now.
+ */
+export function startIfDue(): boolean {
+	const lastChecked = getLastCheckedTime();
+	if (!isDue()) {
+		log.info(`Skip update check (Last checked ${new Date(lastChecked).toLocaleString()})`);
+		return false;
+	}
+	hasFailure = false;
+	return true;
+}
+
+/**
+ * Reports that the update check of JDK, Maven or Gradle failed (e.g. offline, 404).
+ */
+export function reportFailure() {
+	hasFailure = true;
+}
+
+/**
+ * Records the last checked time shared by other windows if no failure was reported since startIfDue().
+ */
+export function finish() {
+	if (hasFailure) {
+		log.info('Update check failed, retry next time');
+		return;
+	}
+	try {
+		fs.writeFileSync(getStoreFile(), JSON.stringify({lastChecked: Date.now()}));
+	} catch (e: unknown) {
+		log.warn('UpdateCheck: store', e);
+	}
+}
+
+/**
+ * Starts the background timer to check updates in long-running sessions.
+ * The timer is not started if the interval is 'startup'.
+ * @param callback The update check function called when the interval has elapsed.
+ * @returns The disposable to stop the timer.
+ */
+export function startTimer(callback: () => Promise<void>): vscode.Disposable {
+	const timer = setInterval(async () => {
+		if (getIntervalMs() === 0 || !isDue()) {
+			return;
+		}
+		log.info('Background update check');
+		try {
+			await callback();
+		} catch (e: unknown) {
+			log.warn('Failed background update check', e);
+		}
+	}, TIMER_MS);
+	return new vscode.Disposable(() => clearInterval(timer));
+}